@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from "vitest";
+import { ClickHouseAdapter, type ClickHouseClientFn } from "./clickhouse";
+
+describe("ClickHouseAdapter", () => {
+	describe("introspect", () => {
+		it("should derive column metadata from the ClickHouse type", async () => {
+			const clientFn = vi.fn(async ({ query }: { query: string }) =>
+				query.includes("system.tables")
+					? [{ name: "events", engine: "MergeTree", comment: "", primary_key: "id" }]
+					: [
+							{
+								table: "events",
+								name: "kind",
+								type: "LowCardinality(Enum8('click' = 1, 'it\\'s' = 2))",
+								position: 1,
+								comment: "",
+								is_in_primary_key: 0,
+								default_expression: "'click'",
+							},
+							{
+								table: "events",
+								name: "amount",
+								type: "Nullable(Decimal(18, 4))",
+								position: 2,
+								comment: "",
+								is_in_primary_key: 0,
+								default_expression: "",
+							},
+							{
+								table: "events",
+								name: "country",
+								type: "FixedString(2)",
+								position: 3,
+								comment: "",
+								is_in_primary_key: 0,
+								default_expression: "",
+							},
+						],
+			);
+			const adapter = new ClickHouseAdapter(
+				clientFn as unknown as ClickHouseClientFn,
+			);
+
+			const schema = await adapter.introspect();
+
+			expect(schema.tables[0]?.columns).toEqual([
+				{
+					name: "kind",
+					type: "Enum8('click' = 1, 'it\\'s' = 2)",
+					rawType: "LowCardinality(Enum8('click' = 1, 'it\\'s' = 2))",
+					isPrimaryKey: false,
+					nullable: false,
+					enumValues: ["click", "it's"],
+					defaultExpression: "'click'",
+				},
+				{
+					name: "amount",
+					type: "Decimal(18, 4)",
+					rawType: "Nullable(Decimal(18, 4))",
+					isPrimaryKey: false,
+					nullable: true,
+					precision: 18,
+					scale: 4,
+				},
+				{
+					name: "country",
+					type: "FixedString(2)",
+					rawType: "FixedString(2)",
+					isPrimaryKey: false,
+					nullable: false,
+					maxLength: 2,
+				},
+			]);
+		});
+	});
+});
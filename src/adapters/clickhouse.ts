@@ -3,14 +3,29 @@ import type {
 	DataFormat,
 	QueryParams,
 } from "@clickhouse/client";
+import { listTableReferences } from "../core/tenant-isolation";
 import type {
 	ColumnSchema,
 	IntrospectOptions,
 	SchemaIntrospection,
 	TableSchema,
 } from "../schema/types";
-import { parseKeyExpression, unwrapTypeModifiers } from "../utils/clickhouse";
-import type { DatabaseAdapter, DatabaseExecutionResult } from "./types";
+import { inferRelationships } from "../schema/relationships";
+import {
+	extractEnumValues,
+	extractFixedStringLength,
+	extractPrecisionScale,
+	isNullableType,
+	parseKeyExpression,
+	unwrapTypeModifiers,
+} from "../utils/clickhouse";
+import type {
+	DatabaseAdapter,
+	DatabaseExecutionResult,
+	ExecuteOptions,
+	RowBatchStream,
+	StreamOptions,
+} from "./types";
 
 export interface ClickHouseAdapterOptions {
 	/** Optional logical database name used in introspection metadata. */
@@ -30,7 +45,11 @@ export interface ClickHouseAdapterOptions {
 	allowedTables?: string[];
 }
 
-export type ClickHouseQueryResult = { json: () => Promise<unknown> };
+export type ClickHouseQueryResult = {
+	json: () => Promise<unknown>;
+	/** Present on @clickhouse/client result sets of streamable formats */
+	stream?: () => AsyncIterable<Array<{ json: () => unknown }>>;
+};
 
 export type ClickHouseClientFn = (
 	params: QueryParams,
@@ -60,12 +79,13 @@ type ColumnRow = {
 	position: number;
 	comment: string | null;
 	is_in_primary_key: string | number | null;
+	default_expression: string | null;
 };
 
 /**
  * Simplified ClickHouse adapter following IngestRequest format
  * Removed: indexes, constraints, statistics
- * Kept only: tables, columns (name, type, isPrimaryKey, comment)
+ * Kept only: tables, columns (name, type, isPrimaryKey, comment), inferred relationships
  */
 export class ClickHouseAdapter implements DatabaseAdapter {
 	private readonly databaseName: string;
@@ -88,6 +108,7 @@ export class ClickHouseAdapter implements DatabaseAdapter {
 	async execute(
 		sql: string,
 		params?: Record<string, string | number | boolean | string[] | number[]>,
+		options?: ExecuteOptions,
 	): Promise<DatabaseExecutionResult> {
 		// Validate query against allowed tables if restrictions are in place
 		if (this.allowedTables) {
@@ -100,12 +121,53 @@ export class ClickHouseAdapter implements DatabaseAdapter {
 		if (params) {
 			queryOptions.params = params;
 		}
+		const settings = buildLimitSettings(options);
+		if (settings) {
+			queryOptions.settings = settings;
+		}
 
 		const rows = await this.query<Record<string, unknown>>(sql, queryOptions);
 		const fields = rows.length > 0 ? Object.keys(rows[0] ?? {}) : [];
 		return { fields, rows };
 	}
 
+	/**
+	 * Streams JSONEachRow rows as the client receives them.
+	 * Client functions returning plain arrays yield a single batch.
+	 */
+	async *stream(
+		sql: string,
+		params?: Record<string, string | number | boolean | string[] | number[]>,
+		options?: StreamOptions,
+	): RowBatchStream {
+		if (this.allowedTables) {
+			this.validateQueryTables(sql);
+		}
+
+		const queryParams: QueryParams = {
+			query: sql,
+			// Only row-per-line formats can be streamed
+			format: "JSONEachRow",
+		};
+		if (params) {
+			queryParams.query_params = params;
+		}
+		const settings = buildLimitSettings(options);
+		if (settings) {
+			queryParams.clickhouse_settings = settings;
+		}
+
+		const result = await this.clientFn(queryParams);
+		if (!Array.isArray(result) && typeof result.stream === "function") {
+			for await (const rows of result.stream()) {
+				yield rows.map((row) => row.json() as Record<string, unknown>);
+			}
+			return;
+		}
+
+		yield await this.extractRows<Record<string, unknown>>(result);
+	}
+
 	async validate(
 		sql: string,
 		params?: Record<string, string | number | boolean | string[] | number[]>,
@@ -155,7 +217,7 @@ export class ClickHouseAdapter implements DatabaseAdapter {
 			? " AND table IN {tables:Array(String)}"
 			: "";
 		const columns = await this.query<ColumnRow>(
-			`SELECT table, name, type, position, comment, is_in_primary_key
+			`SELECT table, name, type, position, comment, is_in_primary_key, default_expression
        FROM system.columns
        WHERE database = {db:String}${columnFilterClause}
        ORDER BY table, position`,
@@ -194,6 +256,12 @@ export class ClickHouseAdapter implements DatabaseAdapter {
 			return base;
 		});
 
+		// ClickHouse has no foreign keys; infer joins from `*_id` column names
+		for (const table of tableSchemas) {
+			const relationships = inferRelationships(table, tableSchemas);
+			if (relationships.length > 0) table.relationships = relationships;
+		}
+
 		return {
 			db: {
 				kind: this.kind,
@@ -211,19 +279,11 @@ export class ClickHouseAdapter implements DatabaseAdapter {
 
 		const allowedSet = new Set(this.allowedTables);
 
-		// Extract potential table references from SQL
-		const tablePattern =
-			/(?:FROM|JOIN)\s+(?:FINAL\s+)?(?:(?:[a-zA-Z_][a-zA-Z0-9_]*)\.)?(["'`]?[a-zA-Z_][a-zA-Z0-9_]*["'`]?)/gi;
-		const matches = sql.matchAll(tablePattern);
-
-		for (const match of matches) {
-			const table = match[1]?.replace(/["'`]/g, "");
-			if (table) {
-				if (!allowedSet.has(table)) {
-					throw new Error(
-						`Query references table "${table}" which is not in the allowed tables list`,
-					);
-				}
+		for (const { table } of listTableReferences(sql, "clickhouse")) {
+			if (!allowedSet.has(table)) {
+				throw new Error(
+					`Query references table "${table}" which is not in the allowed tables list`,
+				);
 			}
 		}
 	}
@@ -289,6 +349,28 @@ function normalizePayload<T>(payload: unknown): T[] {
 	return [];
 }
 
+/**
+ * Row and time limits as ClickHouse settings; `break` returns the rows read so far
+ * instead of failing, so the caller can flag the result as truncated
+ */
+function buildLimitSettings(
+	options?: ExecuteOptions,
+): ClickHouseSettings | undefined {
+	if (options?.maxRows === undefined && options?.timeoutMs === undefined) {
+		return undefined;
+	}
+	const settings: ClickHouseSettings = {};
+	if (options.maxRows !== undefined) {
+		// One extra row tells the caller there was more
+		settings.max_result_rows = String(options.maxRows + 1);
+		settings.result_overflow_mode = "break";
+	}
+	if (options.timeoutMs !== undefined) {
+		settings.max_execution_time = Math.max(1, Math.ceil(options.timeoutMs / 1000));
+	}
+	return settings;
+}
+
 function normalizeTableFilter(tables?: string[] | null): string[] {
 	if (!tables?.length) return [];
 	const seen = new Set<string>();
@@ -314,11 +396,27 @@ function transformColumnRow(row: ColumnRow): ColumnSchema {
 		type: unwrappedType,
 		rawType: row.type,
 		isPrimaryKey: Boolean(toNumber(row.is_in_primary_key)),
+		nullable: isNullableType(row.type),
 	};
 
 	const comment = sanitize(row.comment);
 	if (comment !== undefined) column.comment = comment;
 
+	const { precision, scale } = extractPrecisionScale(row.type);
+	if (precision !== undefined) column.precision = precision;
+	if (scale !== undefined) column.scale = scale;
+
+	const maxLength = extractFixedStringLength(row.type);
+	if (maxLength !== undefined) column.maxLength = maxLength;
+
+	const enumValues = extractEnumValues(row.type);
+	if (enumValues !== undefined) column.enumValues = enumValues;
+
+	const defaultExpression = sanitize(row.default_expression);
+	if (defaultExpression !== undefined) {
+		column.defaultExpression = defaultExpression;
+	}
+
 	return column;
 }
 
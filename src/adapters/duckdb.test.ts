@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from "vitest";
+import { DuckDbAdapter, type DuckDbClientFn } from "./duckdb";
+
+describe("DuckDbAdapter", () => {
+	const createMockClientFn = (): DuckDbClientFn =>
+		vi.fn().mockResolvedValue({
+			rows: [{ country: "DE", revenue: 10 }],
+		});
+
+	describe("execute", () => {
+		it("should rewrite placeholders to $name and bind values by name", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new DuckDbAdapter(clientFn);
+
+			const result = await adapter.execute(
+				"SELECT country, SUM(amount)::DOUBLE AS revenue FROM orders WHERE status = {status:String} AND created_at >= :from GROUP BY 1",
+				{ status: "paid", from: "2024-01-01" },
+			);
+
+			expect(clientFn).toHaveBeenCalledWith(
+				"SELECT country, SUM(amount)::DOUBLE AS revenue FROM orders WHERE status = $status AND created_at >= $from GROUP BY 1",
+				{ status: "paid", from: "2024-01-01" },
+			);
+			expect(result).toEqual({
+				fields: ["country", "revenue"],
+				rows: [{ country: "DE", revenue: 10 }],
+			});
+		});
+
+		it("should keep $name placeholders as-is", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new DuckDbAdapter(clientFn);
+
+			await adapter.execute("SELECT * FROM orders WHERE id = $id", { id: 1 });
+
+			expect(clientFn).toHaveBeenCalledWith(
+				"SELECT * FROM orders WHERE id = $id",
+				{ id: 1 },
+			);
+		});
+
+		it("should reject direct file reads when allowedTables is set", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new DuckDbAdapter(clientFn, {
+				allowedTables: ["orders"],
+			});
+
+			await expect(
+				adapter.execute("SELECT * FROM read_parquet('exports/*.parquet')"),
+			).rejects.toThrow(
+				'Query references table "main.read_parquet" which is not in the allowed tables list',
+			);
+			await expect(
+				adapter.execute("SELECT * FROM main.orders"),
+			).resolves.toBeDefined();
+		});
+	});
+
+	describe("validate", () => {
+		it("should run EXPLAIN", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new DuckDbAdapter(clientFn);
+
+			await adapter.validate("SELECT 1");
+
+			expect(clientFn).toHaveBeenCalledWith("EXPLAIN SELECT 1", undefined);
+		});
+	});
+
+	describe("introspect", () => {
+		it("should build schema from information_schema", async () => {
+			const clientFn = vi
+				.fn()
+				.mockResolvedValueOnce({
+					rows: [
+						{ table_name: "orders", table_schema: "main", table_type: "VIEW" },
+						{ table_name: "customers", table_schema: "main", table_type: "BASE TABLE" },
+					],
+				})
+				.mockResolvedValueOnce({
+					rows: [
+						{
+							table_name: "orders",
+							table_schema: "main",
+							column_name: "amount",
+							data_type: "DECIMAL(18,2)",
+							is_primary_key: false,
+						},
+						{
+							table_name: "customers",
+							table_schema: "main",
+							column_name: "id",
+							data_type: "INTEGER",
+							is_primary_key: true,
+						},
+					],
+				});
+			const adapter = new DuckDbAdapter(clientFn, { database: "exports" });
+
+			const result = await adapter.introspect({ tables: ["orders", "customers"] });
+
+			expect(clientFn).toHaveBeenCalledWith(
+				expect.stringContaining("t.table_catalog = $catalog"),
+				{ catalog: "exports" },
+			);
+			expect(clientFn.mock.calls[0]?.[0]).toContain(
+				"(t.table_schema = 'main' AND t.table_name = 'orders')",
+			);
+			expect(result.db).toEqual({ kind: "duckdb", name: "exports" });
+			expect(result.tables).toEqual([
+				{
+					name: "customers",
+					schema: "main",
+					type: "table",
+					columns: [{ name: "id", type: "INTEGER", isPrimaryKey: true }],
+				},
+				{
+					name: "orders",
+					schema: "main",
+					type: "view",
+					columns: [
+						{ name: "amount", type: "DECIMAL(18,2)", isPrimaryKey: false },
+					],
+				},
+			]);
+		});
+	});
+
+	it("should report duckdb dialect", () => {
+		expect(new DuckDbAdapter(createMockClientFn()).getDialect()).toBe("duckdb");
+	});
+});
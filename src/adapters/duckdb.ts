@@ -0,0 +1,306 @@
+import { listTableReferences } from "../core/tenant-isolation";
+import type {
+	ColumnSchema,
+	IntrospectOptions,
+	SchemaIntrospection,
+	TableSchema,
+} from "../schema/types";
+import { convertToNamedParams } from "../utils/params";
+import type { DatabaseAdapter, DatabaseExecutionResult } from "./types";
+
+export interface DuckDbQueryResult {
+	rows: Array<Record<string, unknown>>;
+	/** Optional column list; derived from the first row when omitted. */
+	fields?: Array<{ name: string }>;
+}
+
+/**
+ * Client function running a statement with `$name` placeholders bound from an object.
+ * With @duckdb/node-api: `async (sql, params) => { const reader = await conn.runAndReadAll(sql, params); return { rows: reader.getRowObjectsJS() }; }`
+ */
+export type DuckDbClientFn = (
+	sql: string,
+	params?: Record<string, unknown>,
+) => Promise<DuckDbQueryResult>;
+
+export interface DuckDbAdapterOptions {
+	/** Logical database (catalog) name used in introspection metadata. */
+	database?: string;
+	/** Schema to assume when a table is provided without qualification. */
+	defaultSchema?: string;
+	/** Optional database kind label. Defaults to "duckdb". */
+	kind?: SchemaIntrospection["db"]["kind"];
+	/**
+	 * Optional allow-list of table or view names (schema-qualified or bare).
+	 * When specified, introspection and queries are restricted to these tables only.
+	 * Expose Parquet/CSV files through views (`CREATE VIEW orders AS FROM 'orders.parquet'`)
+	 * so they can be listed here.
+	 */
+	allowedTables?: string[];
+}
+
+type TableRow = {
+	table_name: string;
+	table_schema: string;
+	table_type: string;
+};
+
+type ColumnRow = {
+	table_name: string;
+	table_schema: string;
+	column_name: string;
+	data_type: string;
+	is_primary_key: boolean;
+};
+
+interface NormalizedTable {
+	schema: string;
+	table: string;
+}
+
+/**
+ * Simplified DuckDB adapter following IngestRequest format
+ * Kept only: tables, columns (name, type, isPrimaryKey)
+ */
+export class DuckDbAdapter implements DatabaseAdapter {
+	private readonly databaseName?: string;
+	private readonly defaultSchema: string;
+	private readonly kind: SchemaIntrospection["db"]["kind"];
+	private readonly allowedTables?: NormalizedTable[];
+
+	constructor(
+		private readonly clientFn: DuckDbClientFn,
+		options: DuckDbAdapterOptions = {},
+	) {
+		this.databaseName = options.database;
+		this.defaultSchema = options.defaultSchema ?? "main";
+		this.kind = options.kind ?? "duckdb";
+		if (options.allowedTables) {
+			this.allowedTables = normalizeTableFilter(
+				options.allowedTables,
+				this.defaultSchema,
+			);
+		}
+	}
+
+	async execute(
+		sql: string,
+		params?: Record<string, string | number | boolean | string[] | number[]>,
+	): Promise<DatabaseExecutionResult> {
+		// Validate query against allowed tables if restrictions are in place
+		if (this.allowedTables) {
+			this.validateQueryTables(sql);
+		}
+
+		const bound = convertToNamedParams(sql, params, "$");
+		const result = await this.clientFn(bound.sql, bound.values);
+		const rows = result.rows ?? [];
+		const fields = result.fields
+			? result.fields.map((f) => f.name)
+			: Object.keys(rows[0] ?? {});
+		return { fields, rows };
+	}
+
+	async validate(
+		sql: string,
+		params?: Record<string, string | number | boolean | string[] | number[]>,
+	): Promise<void> {
+		const bound = convertToNamedParams(sql, params, "$");
+		await this.clientFn(`EXPLAIN ${bound.sql}`, bound.values);
+	}
+
+	getDialect() {
+		return "duckdb" as const;
+	}
+
+	/**
+	 * Simplified introspection via information_schema
+	 * No indexes, constraints, or statistics
+	 */
+	async introspect(options?: IntrospectOptions): Promise<SchemaIntrospection> {
+		// Use adapter-level allowedTables if no specific tables provided in options
+		const tablesToIntrospect = options?.tables
+			? normalizeTableFilter(options.tables, this.defaultSchema)
+			: this.allowedTables;
+		const normalizedTables = tablesToIntrospect ?? [];
+		const catalogParams = this.databaseName
+			? { catalog: this.databaseName }
+			: undefined;
+
+		const tablesResult = await this.clientFn(
+			buildTablesQuery(normalizedTables, Boolean(this.databaseName)),
+			catalogParams,
+		);
+		const tableRows = tablesResult.rows as TableRow[];
+
+		const columnsResult = await this.clientFn(
+			buildColumnsQuery(normalizedTables, Boolean(this.databaseName)),
+			catalogParams,
+		);
+		const columnRows = columnsResult.rows as ColumnRow[];
+
+		const tablesByKey = new Map<string, TableSchema>();
+
+		// Build tables
+		for (const row of tableRows) {
+			tablesByKey.set(tableKey(row.table_schema, row.table_name), {
+				name: row.table_name,
+				schema: row.table_schema,
+				type: asTableType(row.table_type),
+				columns: [],
+			});
+		}
+
+		// Build columns
+		for (const row of columnRows) {
+			const table = tablesByKey.get(tableKey(row.table_schema, row.table_name));
+			if (!table) continue;
+
+			const column: ColumnSchema = {
+				name: row.column_name,
+				type: row.data_type,
+				isPrimaryKey: Boolean(row.is_primary_key),
+			};
+			table.columns.push(column);
+		}
+
+		const tables = Array.from(tablesByKey.values()).sort((a, b) => {
+			if (a.schema === b.schema) {
+				return a.name.localeCompare(b.name);
+			}
+			return a.schema.localeCompare(b.schema);
+		});
+
+		return {
+			db: {
+				kind: this.kind,
+				name: this.databaseName ?? "duckdb",
+			},
+			tables,
+			introspectedAt: new Date().toISOString(),
+		};
+	}
+
+	private validateQueryTables(sql: string): void {
+		if (!this.allowedTables || this.allowedTables.length === 0) {
+			return;
+		}
+
+		const allowedSet = new Set(
+			this.allowedTables.map((t) => tableKey(t.schema, t.table)),
+		);
+
+		for (const reference of listTableReferences(sql, "duckdb")) {
+			const schema = reference.schema ?? this.defaultSchema;
+			const key = tableKey(schema, reference.table);
+			if (!allowedSet.has(key)) {
+				throw new Error(
+					`Query references table "${schema}.${reference.table}" which is not in the allowed tables list`,
+				);
+			}
+		}
+	}
+}
+
+function normalizeTableFilter(
+	tables: string[] | undefined,
+	defaultSchema: string,
+): NormalizedTable[] {
+	if (!tables?.length) return [];
+	const normalized: NormalizedTable[] = [];
+	const seen = new Set<string>();
+
+	for (const raw of tables) {
+		if (!raw) continue;
+		const trimmed = raw.trim();
+		if (!trimmed) continue;
+		const parts = trimmed.split(".");
+		const table = parts.pop() ?? "";
+		const schema = parts.pop() ?? defaultSchema;
+		if (!isSafeIdentifier(schema) || !isSafeIdentifier(table)) {
+			continue;
+		}
+		const key = tableKey(schema, table);
+		if (seen.has(key)) continue;
+		seen.add(key);
+		normalized.push({ schema, table });
+	}
+
+	return normalized;
+}
+
+function buildTablesQuery(
+	tables: NormalizedTable[],
+	filterCatalog: boolean,
+): string {
+	const filter = buildFilterClause(tables, "t.table_schema", "t.table_name");
+	const catalogFilter = filterCatalog ? "AND t.table_catalog = $catalog" : "";
+	return `SELECT
+    t.table_name,
+    t.table_schema,
+    t.table_type
+  FROM information_schema.tables t
+  WHERE t.table_schema NOT IN ('information_schema', 'pg_catalog')
+    ${catalogFilter}
+    ${filter}
+  ORDER BY t.table_schema, t.table_name;`;
+}
+
+function buildColumnsQuery(
+	tables: NormalizedTable[],
+	filterCatalog: boolean,
+): string {
+	const filter = buildFilterClause(
+		tables,
+		"cols.table_schema",
+		"cols.table_name",
+	);
+	const catalogFilter = filterCatalog
+		? "AND cols.table_catalog = $catalog"
+		: "";
+	return `SELECT
+    cols.table_name,
+    cols.table_schema,
+    cols.column_name,
+    cols.data_type,
+    EXISTS(
+      SELECT 1
+      FROM information_schema.table_constraints tc
+      JOIN information_schema.key_column_usage kcu
+        ON tc.constraint_name = kcu.constraint_name
+       AND tc.table_schema = kcu.table_schema
+      WHERE tc.constraint_type = 'PRIMARY KEY'
+        AND tc.table_schema = cols.table_schema
+        AND tc.table_name = cols.table_name
+        AND kcu.column_name = cols.column_name
+    ) AS is_primary_key
+  FROM information_schema.columns cols
+  WHERE cols.table_schema NOT IN ('information_schema', 'pg_catalog')
+    ${catalogFilter}
+    ${filter}
+  ORDER BY cols.table_schema, cols.table_name, cols.ordinal_position;`;
+}
+
+function buildFilterClause(
+	tables: NormalizedTable[],
+	schemaExpr: string,
+	tableExpr: string,
+): string {
+	if (!tables.length) return "";
+	const clauses = tables.map(({ schema, table }) => {
+		return `(${schemaExpr} = '${schema}' AND ${tableExpr} = '${table}')`;
+	});
+	return `AND (${clauses.join(" OR ")})`;
+}
+
+function tableKey(schema: string, table: string): string {
+	return `${schema}.${table}`;
+}
+
+function isSafeIdentifier(value: string): boolean {
+	return /^[A-Za-z_][A-Za-z0-9_]*$/.test(value);
+}
+
+function asTableType(value: string): TableSchema["type"] {
+	return value.toLowerCase().includes("view") ? "view" : "table";
+}
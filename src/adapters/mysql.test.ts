@@ -0,0 +1,210 @@
+import { describe, expect, it, vi } from "vitest";
+import { convertNamedToPositionalParams } from "../utils/params";
+import { MySqlAdapter, type MySqlClientFn } from "./mysql";
+
+describe("MySqlAdapter", () => {
+	const createMockClientFn = (): MySqlClientFn =>
+		vi.fn().mockResolvedValue({
+			rows: [{ id: 1 }],
+			fields: [{ name: "id" }],
+		});
+
+	describe("execute", () => {
+		it("should convert named params to positional placeholders", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new MySqlAdapter(clientFn, { database: "shop" });
+
+			const result = await adapter.execute(
+				"SELECT * FROM orders WHERE status = :status AND tenant_id = :tenant_id AND total > :min",
+				{ tenant_id: "t-1", min: 10, status: "paid" },
+			);
+
+			expect(clientFn).toHaveBeenCalledWith(
+				"SELECT * FROM orders WHERE status = ? AND tenant_id = ? AND total > ?",
+				["paid", "t-1", 10],
+			);
+			expect(result).toEqual({ fields: ["id"], rows: [{ id: 1 }] });
+		});
+
+		it("should pass SQL through unchanged without params", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new MySqlAdapter(clientFn);
+
+			await adapter.execute("SELECT 1");
+
+			expect(clientFn).toHaveBeenCalledWith("SELECT 1", undefined);
+		});
+	});
+
+	describe("validate", () => {
+		it("should run EXPLAIN with bound params", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new MySqlAdapter(clientFn);
+
+			await adapter.validate("SELECT * FROM orders WHERE id = :id", {
+				id: 5,
+			});
+
+			expect(clientFn).toHaveBeenCalledWith(
+				"EXPLAIN SELECT * FROM orders WHERE id = ?",
+				[5],
+			);
+		});
+	});
+
+	describe("validateQueryTables", () => {
+		it("should allow queries to tables in the allowed list", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new MySqlAdapter(clientFn, {
+				database: "shop",
+				allowedTables: ["orders", "shop.customers"],
+			});
+
+			await expect(
+				adapter.execute(
+					"SELECT * FROM `orders` JOIN shop.customers ON orders.customer_id = customers.id",
+				),
+			).resolves.toBeDefined();
+		});
+
+		it("should reject queries to tables not in the allowed list", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new MySqlAdapter(clientFn, {
+				database: "shop",
+				allowedTables: ["orders"],
+			});
+
+			await expect(adapter.execute("SELECT * FROM users")).rejects.toThrow(
+				'Query references table "shop.users" which is not in the allowed tables list',
+			);
+			expect(clientFn).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("introspect", () => {
+		it("should build tables and columns from information_schema", async () => {
+			const clientFn = vi
+				.fn()
+				.mockResolvedValueOnce({
+					rows: [
+						{
+							table_name: "orders",
+							schema_name: "shop",
+							table_type: "BASE TABLE",
+							comment: "Customer orders",
+						},
+						{
+							table_name: "order_totals",
+							schema_name: "shop",
+							table_type: "VIEW",
+							comment: "",
+						},
+					],
+					fields: [],
+				})
+				.mockResolvedValueOnce({
+					rows: [
+						{
+							table_name: "orders",
+							table_schema: "shop",
+							column_name: "id",
+							data_type: "int",
+							column_type: "int unsigned",
+							column_key: "PRI",
+							description: "",
+						},
+						{
+							table_name: "orders",
+							table_schema: "shop",
+							column_name: "status",
+							data_type: "varchar",
+							column_type: "varchar(32)",
+							column_key: "",
+							description: "Order status",
+						},
+					],
+					fields: [],
+				});
+			const adapter = new MySqlAdapter(clientFn, { database: "shop" });
+
+			const result = await adapter.introspect();
+
+			expect(clientFn).toHaveBeenCalledWith(
+				expect.stringContaining("information_schema.TABLES"),
+				["shop"],
+			);
+			expect(result.db).toEqual({ kind: "mysql", name: "shop" });
+			expect(result.tables.map((t) => t.name)).toEqual([
+				"order_totals",
+				"orders",
+			]);
+			const orders = result.tables.find((t) => t.name === "orders");
+			expect(orders?.comment).toBe("Customer orders");
+			expect(orders?.columns).toEqual([
+				{ name: "id", type: "int", rawType: "int unsigned", isPrimaryKey: true },
+				{
+					name: "status",
+					type: "varchar",
+					rawType: "varchar(32)",
+					isPrimaryKey: false,
+					comment: "Order status",
+				},
+			]);
+			expect(result.tables[0]?.type).toBe("view");
+		});
+	});
+
+	it("should report mysql dialect", () => {
+		expect(new MySqlAdapter(createMockClientFn()).getDialect()).toBe("mysql");
+	});
+});
+
+describe("convertNamedToPositionalParams", () => {
+	it("should support brace placeholders and repeated names", () => {
+		const result = convertNamedToPositionalParams(
+			"SELECT * FROM t WHERE a = {a:String} OR b = {a}",
+			{ a: "x" },
+		);
+
+		expect(result).toEqual({
+			sql: "SELECT * FROM t WHERE a = ? OR b = ?",
+			values: ["x", "x"],
+		});
+	});
+
+	it("should map existing ? placeholders to numeric keys in order", () => {
+		const result = convertNamedToPositionalParams(
+			"SELECT * FROM t WHERE a = ? AND b = ? AND c = :c",
+			{ "2": "second", "1": "first", c: 3 },
+		);
+
+		expect(result).toEqual({
+			sql: "SELECT * FROM t WHERE a = ? AND b = ? AND c = ?",
+			values: ["first", "second", 3],
+		});
+	});
+
+	it("should ignore placeholders inside string literals and comments", () => {
+		const result = convertNamedToPositionalParams(
+			"SELECT ':a', `:a` -- :a\nFROM t WHERE a = :a",
+			{ a: 1 },
+		);
+
+		expect(result).toEqual({
+			sql: "SELECT ':a', `:a` -- :a\nFROM t WHERE a = ?",
+			values: [1],
+		});
+	});
+
+	it("should reject executable and nested comments", () => {
+		expect(() =>
+			convertNamedToPositionalParams(
+				"SELECT * FROM t WHERE a = :a /*! OR 1 = :a */",
+				{ a: 1 },
+			),
+		).toThrow("Executable comments");
+		expect(() =>
+			convertNamedToPositionalParams("SELECT 1 /* /* */ :a */", { a: 1 }),
+		).toThrow("Nested comments");
+	});
+});
@@ -0,0 +1,302 @@
+import { listTableReferences } from "../core/tenant-isolation";
+import type {
+	ColumnSchema,
+	IntrospectOptions,
+	SchemaIntrospection,
+	TableSchema,
+} from "../schema/types";
+import { convertNamedToPositionalParams } from "../utils/params";
+import type { DatabaseAdapter, DatabaseExecutionResult } from "./types";
+
+export interface MySqlQueryResult {
+	rows: Array<Record<string, unknown>>;
+	fields: Array<{ name: string }>;
+}
+
+/**
+ * Client function executing a query with `?` positional placeholders.
+ * With mysql2: `async (sql, params) => { const [rows, fields] = await pool.query(sql, params); return { rows, fields }; }`
+ */
+export type MySqlClientFn = (
+	sql: string,
+	params?: unknown[],
+) => Promise<MySqlQueryResult>;
+
+export interface MySqlAdapterOptions {
+	/** Logical database (schema) name used for introspection and unqualified tables. */
+	database?: string;
+	/** Optional database kind label. Defaults to "mysql". */
+	kind?: SchemaIntrospection["db"]["kind"];
+	/**
+	 * Optional allow-list of table names (database-qualified or bare).
+	 * When specified, introspection and queries are restricted to these tables only.
+	 */
+	allowedTables?: string[];
+}
+
+type TableRow = {
+	table_name: string;
+	schema_name: string;
+	table_type: string;
+	comment: string | null;
+};
+
+type ColumnRow = {
+	table_name: string;
+	table_schema: string;
+	column_name: string;
+	data_type: string;
+	column_type: string | null;
+	column_key: string | null;
+	description: string | null;
+};
+
+interface NormalizedTable {
+	schema: string;
+	table: string;
+}
+
+/**
+ * Simplified MySQL adapter following IngestRequest format
+ * Kept only: tables, columns (name, type, isPrimaryKey, comment)
+ */
+export class MySqlAdapter implements DatabaseAdapter {
+	private readonly databaseName: string;
+	private readonly kind: SchemaIntrospection["db"]["kind"];
+	private readonly allowedTables?: NormalizedTable[];
+
+	constructor(
+		private readonly clientFn: MySqlClientFn,
+		options: MySqlAdapterOptions = {},
+	) {
+		this.databaseName = options.database ?? "mysql";
+		this.kind = options.kind ?? "mysql";
+		if (options.allowedTables) {
+			this.allowedTables = normalizeTableFilter(
+				options.allowedTables,
+				this.databaseName,
+			);
+		}
+	}
+
+	async execute(
+		sql: string,
+		params?: Record<string, string | number | boolean | string[] | number[]>,
+	): Promise<DatabaseExecutionResult> {
+		// Validate query against allowed tables if restrictions are in place
+		if (this.allowedTables) {
+			this.validateQueryTables(sql);
+		}
+
+		const { sql: boundSql, values } = convertNamedToPositionalParams(
+			sql,
+			params,
+		);
+		const result = await this.clientFn(boundSql, values);
+		const fields = result.fields.map((f) => f.name);
+		return { fields, rows: result.rows };
+	}
+
+	async validate(
+		sql: string,
+		params?: Record<string, string | number | boolean | string[] | number[]>,
+	): Promise<void> {
+		const { sql: boundSql, values } = convertNamedToPositionalParams(
+			sql,
+			params,
+		);
+		await this.clientFn(`EXPLAIN ${boundSql}`, values);
+	}
+
+	getDialect() {
+		return "mysql" as const;
+	}
+
+	/**
+	 * Simplified introspection: only collect table/column metadata for IngestRequest
+	 * No indexes, constraints, or statistics
+	 */
+	async introspect(options?: IntrospectOptions): Promise<SchemaIntrospection> {
+		// Use adapter-level allowedTables if no specific tables provided in options
+		const tablesToIntrospect = options?.tables
+			? normalizeTableFilter(options.tables, this.databaseName)
+			: this.allowedTables;
+		const normalizedTables = tablesToIntrospect ?? [];
+
+		const tablesResult = await this.clientFn(
+			buildTablesQuery(normalizedTables),
+			[this.databaseName],
+		);
+		const tableRows = tablesResult.rows as TableRow[];
+
+		const columnsResult = await this.clientFn(
+			buildColumnsQuery(normalizedTables),
+			[this.databaseName],
+		);
+		const columnRows = columnsResult.rows as ColumnRow[];
+
+		const tablesByKey = new Map<string, TableSchema>();
+
+		// Build tables
+		for (const row of tableRows) {
+			const key = tableKey(row.schema_name, row.table_name);
+			const table: TableSchema = {
+				name: row.table_name,
+				schema: row.schema_name,
+				type: asTableType(row.table_type),
+				columns: [],
+			};
+
+			const comment = sanitize(row.comment);
+			if (comment !== undefined) {
+				table.comment = comment;
+			}
+
+			tablesByKey.set(key, table);
+		}
+
+		// Build columns
+		for (const row of columnRows) {
+			const key = tableKey(row.table_schema, row.table_name);
+			const table = tablesByKey.get(key);
+			if (!table) continue;
+
+			const column: ColumnSchema = {
+				name: row.column_name,
+				type: row.data_type,
+				isPrimaryKey: row.column_key === "PRI",
+			};
+
+			const rawType = row.column_type ?? undefined;
+			if (rawType !== undefined) column.rawType = rawType;
+
+			const comment = sanitize(row.description);
+			if (comment !== undefined) column.comment = comment;
+
+			table.columns.push(column);
+		}
+
+		const tables = Array.from(tablesByKey.values()).sort((a, b) =>
+			a.name.localeCompare(b.name),
+		);
+
+		return {
+			db: {
+				kind: this.kind,
+				name: this.databaseName,
+			},
+			tables,
+			introspectedAt: new Date().toISOString(),
+		};
+	}
+
+	private validateQueryTables(sql: string): void {
+		if (!this.allowedTables || this.allowedTables.length === 0) {
+			return;
+		}
+
+		const allowedSet = new Set(
+			this.allowedTables.map((t) => tableKey(t.schema, t.table)),
+		);
+
+		for (const reference of listTableReferences(sql, "mysql")) {
+			const schema = reference.schema ?? this.databaseName;
+			const key = tableKey(schema, reference.table);
+			if (!allowedSet.has(key)) {
+				throw new Error(
+					`Query references table "${schema}.${reference.table}" which is not in the allowed tables list`,
+				);
+			}
+		}
+	}
+}
+
+function normalizeTableFilter(
+	tables: string[] | undefined,
+	defaultSchema: string,
+): NormalizedTable[] {
+	if (!tables?.length) return [];
+	const normalized: NormalizedTable[] = [];
+	const seen = new Set<string>();
+
+	for (const raw of tables) {
+		if (!raw) continue;
+		const trimmed = raw.trim().replace(/`/g, "");
+		if (!trimmed) continue;
+		const parts = trimmed.split(".");
+		const table = parts.pop() ?? "";
+		const schema = parts.pop() ?? defaultSchema;
+		if (!isSafeIdentifier(schema) || !isSafeIdentifier(table)) {
+			continue;
+		}
+		const key = tableKey(schema, table);
+		if (seen.has(key)) continue;
+		seen.add(key);
+		normalized.push({ schema, table });
+	}
+
+	return normalized;
+}
+
+function buildTablesQuery(tables: NormalizedTable[]): string {
+	const filter = buildFilterClause(tables, "t.TABLE_SCHEMA", "t.TABLE_NAME");
+	return `SELECT
+    t.TABLE_NAME AS table_name,
+    t.TABLE_SCHEMA AS schema_name,
+    t.TABLE_TYPE AS table_type,
+    t.TABLE_COMMENT AS comment
+  FROM information_schema.TABLES t
+  WHERE t.TABLE_SCHEMA = ?
+    ${filter}
+  ORDER BY t.TABLE_NAME;`;
+}
+
+function buildColumnsQuery(tables: NormalizedTable[]): string {
+	const filter = buildFilterClause(tables, "c.TABLE_SCHEMA", "c.TABLE_NAME");
+	return `SELECT
+    c.TABLE_NAME AS table_name,
+    c.TABLE_SCHEMA AS table_schema,
+    c.COLUMN_NAME AS column_name,
+    c.DATA_TYPE AS data_type,
+    c.COLUMN_TYPE AS column_type,
+    c.COLUMN_KEY AS column_key,
+    c.COLUMN_COMMENT AS description
+  FROM information_schema.COLUMNS c
+  WHERE c.TABLE_SCHEMA = ?
+    ${filter}
+  ORDER BY c.TABLE_NAME, c.ORDINAL_POSITION;`;
+}
+
+function buildFilterClause(
+	tables: NormalizedTable[],
+	schemaExpr: string,
+	tableExpr: string,
+): string {
+	if (!tables.length) return "";
+	const clauses = tables.map(({ schema, table }) => {
+		return `(${schemaExpr} = '${schema}' AND ${tableExpr} = '${table}')`;
+	});
+	return `AND (${clauses.join(" OR ")})`;
+}
+
+function tableKey(schema: string, table: string): string {
+	return `${schema}.${table}`;
+}
+
+function isSafeIdentifier(value: string): boolean {
+	return /^[A-Za-z_][A-Za-z0-9_]*$/.test(value);
+}
+
+function asTableType(value: string): TableSchema["type"] {
+	const normalized = value.toLowerCase();
+	if (normalized.includes("view")) {
+		return "view";
+	}
+	return "table";
+}
+
+function sanitize(value: unknown): string | undefined {
+	if (value === null || value === undefined) return undefined;
+	const trimmed = String(value).trim();
+	return trimmed.length ? trimmed : undefined;
+}
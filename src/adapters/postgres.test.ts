@@ -1,4 +1,5 @@
 import { describe, expect, it, vi } from "vitest";
+import { convertToNumberedParams } from "../utils/params";
 import { PostgresAdapter, type PostgresClientFn } from "./postgres";
 
 describe("PostgresAdapter", () => {
@@ -8,6 +9,199 @@ describe("PostgresAdapter", () => {
 			fields: [{ name: "id" }],
 		});
 
+	describe("execute", () => {
+		it("should bind named params after existing numbered placeholders", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new PostgresAdapter(clientFn);
+
+			await adapter.execute(
+				"SELECT * FROM orders WHERE status = $1 AND orders.tenant_id = $tenant_id::text",
+				{ tenant_id: "t1", "1": "paid" },
+			);
+
+			expect(clientFn).toHaveBeenCalledWith(
+				"SELECT * FROM orders WHERE status = $1 AND orders.tenant_id = $2::text",
+				["paid", "t1"],
+			);
+		});
+
+		it("should pass the statement timeout to the client function", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new PostgresAdapter(clientFn);
+
+			await adapter.execute("SELECT 1", undefined, { timeoutMs: 5000 });
+
+			expect(clientFn).toHaveBeenCalledWith("SELECT 1", undefined, {
+				timeoutMs: 5000,
+			});
+		});
+
+		it("should stream rows through the cursor client function", async () => {
+			const clientFn = createMockClientFn();
+			const cursorFn = vi.fn(async function* () {
+				yield [{ id: 1 }];
+				yield [{ id: 2 }];
+			});
+			const adapter = new PostgresAdapter(clientFn, { cursorFn });
+
+			const batches: unknown[] = [];
+			for await (const rows of adapter.stream("SELECT * FROM t WHERE a = :a", {
+				a: 1,
+			})) {
+				batches.push(rows);
+			}
+
+			expect(batches).toEqual([[{ id: 1 }], [{ id: 2 }]]);
+			expect(cursorFn).toHaveBeenCalledWith("SELECT * FROM t WHERE a = $1", [1], {
+				batchSize: 1000,
+				timeoutMs: undefined,
+			});
+			expect(clientFn).not.toHaveBeenCalled();
+		});
+
+		it("should pass SQL through unchanged without params", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new PostgresAdapter(clientFn);
+
+			await adapter.execute("SELECT 1");
+
+			expect(clientFn).toHaveBeenCalledWith("SELECT 1", undefined);
+		});
+	});
+
+	describe("introspect", () => {
+		it("should report nullability, precision, length, enum values and defaults", async () => {
+			const clientFn = vi.fn(async (sql: string) => {
+				if (sql.includes("FROM pg_class c")) {
+					return {
+						rows: [{ table_name: "orders", schema_name: "public", table_type: "table", comment: null }],
+						fields: [],
+					};
+				}
+				if (sql.includes("FROM information_schema.columns")) {
+					return {
+						rows: [
+							{
+								table_name: "orders",
+								table_schema: "public",
+								column_name: "total",
+								data_type: "numeric",
+								udt_name: "numeric",
+								is_primary_key: false,
+								description: null,
+								is_nullable: "NO",
+								numeric_precision: 12,
+								numeric_scale: 2,
+								character_maximum_length: null,
+								column_default: "0",
+								enum_values: null,
+							},
+							{
+								table_name: "orders",
+								table_schema: "public",
+								column_name: "status",
+								data_type: "USER-DEFINED",
+								udt_name: "order_status",
+								is_primary_key: false,
+								description: null,
+								is_nullable: "YES",
+								numeric_precision: null,
+								numeric_scale: null,
+								character_maximum_length: null,
+								column_default: null,
+								enum_values: '["pending", "paid"]',
+							},
+						],
+						fields: [],
+					};
+				}
+				return { rows: [], fields: [] };
+			});
+			const adapter = new PostgresAdapter(clientFn);
+
+			const schema = await adapter.introspect();
+
+			expect(schema.tables[0]?.columns).toEqual([
+				{
+					name: "total",
+					type: "numeric",
+					rawType: "numeric",
+					isPrimaryKey: false,
+					nullable: false,
+					precision: 12,
+					scale: 2,
+					defaultExpression: "0",
+				},
+				{
+					name: "status",
+					type: "USER-DEFINED",
+					rawType: "order_status",
+					isPrimaryKey: false,
+					nullable: true,
+					enumValues: ["pending", "paid"],
+				},
+			]);
+		});
+
+		it("should group foreign key columns into relationships", async () => {
+			const clientFn = vi.fn(async (sql: string) => {
+				if (sql.includes("FROM pg_class c")) {
+					return {
+						rows: [
+							{ table_name: "line_items", schema_name: "public", table_type: "table", comment: null },
+							{ table_name: "orders", schema_name: "public", table_type: "table", comment: null },
+						],
+						fields: [],
+					};
+				}
+				if (sql.includes("contype = 'f'")) {
+					return {
+						rows: [
+							{
+								constraint_name: "line_items_order_fkey",
+								table_schema: "public",
+								table_name: "line_items",
+								column_name: "order_id",
+								target_schema: "public",
+								target_table: "orders",
+								target_column: "id",
+								is_unique: false,
+							},
+							{
+								constraint_name: "line_items_order_fkey",
+								table_schema: "public",
+								table_name: "line_items",
+								column_name: "order_region",
+								target_schema: "public",
+								target_table: "orders",
+								target_column: "region",
+								is_unique: false,
+							},
+						],
+						fields: [],
+					};
+				}
+				return { rows: [], fields: [] };
+			});
+			const adapter = new PostgresAdapter(clientFn);
+
+			const schema = await adapter.introspect();
+
+			expect(schema.tables[0]?.relationships).toEqual([
+				{
+					name: "line_items_order_fkey",
+					columns: ["order_id", "order_region"],
+					targetSchema: "public",
+					targetTable: "orders",
+					targetColumns: ["id", "region"],
+					cardinality: "many-to-one",
+					origin: "foreign_key",
+				},
+			]);
+			expect(schema.tables[1]?.relationships).toBeUndefined();
+		});
+	});
+
 	describe("validateQueryTables", () => {
 		it("should allow queries to tables in the allowed list", async () => {
 			const clientFn = createMockClientFn();
@@ -76,6 +270,27 @@ describe("PostgresAdapter", () => {
 			).rejects.toThrow('Query references table "public.orders" which is not in the allowed tables list');
 		});
 
+		it("should check every FROM list item, subquery and CTE body", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new PostgresAdapter(clientFn, {
+				allowedTables: ["public.users"],
+			});
+
+			await expect(
+				adapter.execute("SELECT * FROM users, secrets"),
+			).rejects.toThrow('Query references table "public.secrets"');
+			await expect(
+				adapter.execute(
+					"WITH s AS (SELECT * FROM users u, public.secrets) SELECT * FROM s",
+				),
+			).rejects.toThrow('Query references table "public.secrets"');
+			await expect(
+				adapter.execute(
+					"WITH recent AS (SELECT * FROM users) SELECT * FROM recent WHERE id IN (SELECT id FROM users)",
+				),
+			).resolves.toBeDefined();
+		});
+
 		describe("SQL function FROM keyword handling", () => {
 			it("should not confuse EXTRACT(... FROM ...) with table FROM clause", async () => {
 				const clientFn = createMockClientFn();
@@ -238,3 +453,74 @@ INNER JOIN d ON c.id = d.c_id`;
 	});
 });
 
+describe("convertToNumberedParams", () => {
+	it("should number named placeholders in order of first appearance", () => {
+		const result = convertToNumberedParams(
+			"SELECT * FROM t WHERE b = :b AND a = {a:String} OR b2 = :b",
+			{ a: 1, b: 2 },
+		);
+
+		expect(result).toEqual({
+			sql: "SELECT * FROM t WHERE b = $1 AND a = $2 OR b2 = $1",
+			values: [2, 1],
+		});
+	});
+
+	it("should not fill numbered placeholders from unrelated named params", () => {
+		expect(() =>
+			convertToNumberedParams("SELECT * FROM t WHERE z = $1 AND a = $2", {
+				zone: "eu",
+				area: "north",
+			}),
+		).toThrow("Missing value for placeholder $1");
+	});
+
+	it("should bind numbered placeholders to the names they reference", () => {
+		const result = convertToNumberedParams(
+			"SELECT * FROM t WHERE tenant_id = $1 AND country = $2 AND t.tenant_id = $tenant_id::text",
+			{ "1": "<tenant_id>", "2": "<country>", country: "US", tenant_id: "T1" },
+		);
+
+		expect(result).toEqual({
+			sql: "SELECT * FROM t WHERE tenant_id = $1 AND country = $2 AND t.tenant_id = $3::text",
+			values: ["T1", "US", "T1"],
+		});
+	});
+
+	it("should throw when a referenced name has no value", () => {
+		expect(() =>
+			convertToNumberedParams("SELECT * FROM t WHERE a = $1", {
+				"1": "<tenant_id>",
+			}),
+		).toThrow("Missing value for placeholder $1");
+	});
+
+	it("should resolve placeholder tokens for numeric keys", () => {
+		const result = convertToNumberedParams("SELECT * FROM t WHERE a = $1", {
+			"1": "<tenant_id>",
+			tenant_id: "t1",
+		});
+
+		expect(result.values).toEqual(["t1"]);
+	});
+
+	it("should leave casts, strings and dollar-quoted text untouched", () => {
+		const result = convertToNumberedParams(
+			"SELECT ':a', $$ :a $$, x::text FROM t WHERE a = :a",
+			{ a: 1 },
+		);
+
+		expect(result).toEqual({
+			sql: "SELECT ':a', $$ :a $$, x::text FROM t WHERE a = $1",
+			values: [1],
+		});
+	});
+
+	it("should throw when a numbered placeholder has no value", () => {
+		expect(() =>
+			convertToNumberedParams("SELECT * FROM t WHERE a = $1 AND b = $2", {
+				"1": "x",
+			}),
+		).toThrow("Missing value for placeholder $2");
+	});
+});
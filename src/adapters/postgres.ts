@@ -1,21 +1,55 @@
+import { listTableReferences } from "../core/tenant-isolation";
 import type {
 	ColumnSchema,
 	IntrospectOptions,
 	SchemaIntrospection,
 	TableSchema,
 } from "../schema/types";
-import type { DatabaseAdapter, DatabaseExecutionResult } from "./types";
+import { convertToNumberedParams } from "../utils/params";
+import type {
+	DatabaseAdapter,
+	DatabaseExecutionResult,
+	ExecuteOptions,
+	RowBatchStream,
+	StreamOptions,
+} from "./types";
 
 export interface PostgresQueryResult {
 	rows: Array<Record<string, unknown>>;
 	fields: Array<{ name: string }>;
 }
 
+export interface PostgresQueryOptions {
+	/**
+	 * Statement timeout configured for the database. The adapter only passes it on:
+	 * the SDK stops waiting after it, but the query keeps running on the server
+	 * unless the client function applies it, e.g. `SET LOCAL statement_timeout = <ms>`
+	 * in the transaction running the query.
+	 */
+	timeoutMs?: number;
+}
+
 export type PostgresClientFn = (
 	sql: string,
 	params?: unknown[],
+	options?: PostgresQueryOptions,
 ) => Promise<PostgresQueryResult>;
 
+export interface PostgresCursorOptions extends PostgresQueryOptions {
+	/** Rows to fetch per cursor read */
+	batchSize: number;
+}
+
+/**
+ * Cursor-based client function yielding row batches, e.g. with pg-cursor:
+ * `async function* (sql, params, { batchSize }) { const cursor = client.query(new Cursor(sql, params)); let rows; while ((rows = await cursor.read(batchSize)).length) yield rows; }`
+ */
+export type PostgresCursorFn = (
+	sql: string,
+	params?: unknown[],
+	options?: PostgresCursorOptions,
+) => AsyncIterable<Array<Record<string, unknown>>>;
+
 export interface PostgresAdapterOptions {
 	/** Logical database name used in introspection metadata. */
 	database?: string;
@@ -28,8 +62,12 @@ export interface PostgresAdapterOptions {
 	 * When specified, introspection and queries are restricted to these tables only.
 	 */
 	allowedTables?: string[];
+	/** Optional cursor client function used by stream(); without it stream() yields one batch. */
+	cursorFn?: PostgresCursorFn;
 }
 
+const DEFAULT_STREAM_BATCH_SIZE = 1000;
+
 type TableRow = {
 	table_name: string;
 	schema_name: string;
@@ -45,6 +83,25 @@ type ColumnRow = {
 	udt_name: string | null;
 	is_primary_key: boolean;
 	description: string | null;
+	is_nullable: string;
+	numeric_precision: number | string | null;
+	numeric_scale: number | string | null;
+	character_maximum_length: number | string | null;
+	column_default: string | null;
+	/** JSON array of enum labels, parsed or not depending on the driver */
+	enum_values: string[] | string | null;
+};
+
+/** One column pair of a foreign key; multi-column keys span several rows */
+type ForeignKeyRow = {
+	constraint_name: string;
+	table_schema: string;
+	table_name: string;
+	column_name: string;
+	target_schema: string;
+	target_table: string;
+	target_column: string;
+	is_unique: boolean;
 };
 
 interface NormalizedTable {
@@ -54,19 +111,21 @@ interface NormalizedTable {
 
 /**
  * Simplified PostgreSQL adapter following IngestRequest format
- * Removed: indexes, constraints, foreign keys, statistics
- * Kept only: tables, columns (name, type, isPrimaryKey, comment)
+ * Removed: indexes, check constraints, statistics
+ * Kept only: tables, columns (name, type, isPrimaryKey, comment), foreign keys
  */
 export class PostgresAdapter implements DatabaseAdapter {
 	private readonly databaseName: string;
 	private readonly defaultSchema: string;
 	private readonly kind: SchemaIntrospection["db"]["kind"];
 	private readonly allowedTables?: NormalizedTable[];
+	private readonly cursorFn?: PostgresCursorFn;
 
 	constructor(
 		private readonly clientFn: PostgresClientFn,
 		options: PostgresAdapterOptions = {},
 	) {
+		this.cursorFn = options.cursorFn;
 		this.databaseName = options.database ?? "postgres";
 		this.defaultSchema = options.defaultSchema ?? "public";
 		this.kind = options.kind ?? "postgres";
@@ -81,6 +140,7 @@ export class PostgresAdapter implements DatabaseAdapter {
 	async execute(
 		sql: string,
 		params?: Record<string, string | number | boolean | string[] | number[]>,
+		options?: ExecuteOptions,
 	): Promise<DatabaseExecutionResult> {
 		// Validate query against allowed tables if restrictions are in place
 		if (this.allowedTables) {
@@ -88,16 +148,39 @@ export class PostgresAdapter implements DatabaseAdapter {
 		}
 
 		// Convert named params to positional array for PostgreSQL
-		let paramArray: unknown[] | undefined;
-		if (params) {
-			paramArray = this.convertNamedToPositionalParams(params);
-		}
-
-		const result = await this.clientFn(sql, paramArray);
+		const bound = convertToNumberedParams(sql, params);
+		const result =
+			options?.timeoutMs === undefined
+				? await this.clientFn(bound.sql, bound.values)
+				: await this.clientFn(bound.sql, bound.values, {
+						timeoutMs: options.timeoutMs,
+					});
 		const fields = result.fields.map((f) => f.name);
 		return { fields, rows: result.rows };
 	}
 
+	async *stream(
+		sql: string,
+		params?: Record<string, string | number | boolean | string[] | number[]>,
+		options?: StreamOptions,
+	): RowBatchStream {
+		if (!this.cursorFn) {
+			const result = await this.execute(sql, params, options);
+			yield result.rows;
+			return;
+		}
+
+		if (this.allowedTables) {
+			this.validateQueryTables(sql);
+		}
+
+		const bound = convertToNumberedParams(sql, params);
+		yield* this.cursorFn(bound.sql, bound.values, {
+			batchSize: options?.batchSize ?? DEFAULT_STREAM_BATCH_SIZE,
+			timeoutMs: options?.timeoutMs,
+		});
+	}
+
 	private validateQueryTables(sql: string): void {
 		if (!this.allowedTables || this.allowedTables.length === 0) {
 			return;
@@ -107,86 +190,23 @@ export class PostgresAdapter implements DatabaseAdapter {
 			this.allowedTables.map((t) => tableKey(t.schema, t.table)),
 		);
 
-		// First, neutralize function calls that use FROM keyword (EXTRACT, SUBSTRING, TRIM, etc.)
-		// Replace their FROM with a placeholder to avoid false positives
-		const neutralizedSql = sql
-			.replace(/EXTRACT\s*\([^)]*FROM\s+[^)]+\)/gi, "EXTRACT(/*neutralized*/)")
-			.replace(/SUBSTRING\s*\([^)]*FROM\s+[^)]+\)/gi, "SUBSTRING(/*neutralized*/)")
-			.replace(/TRIM\s*\([^)]*FROM\s+[^)]+\)/gi, "TRIM(/*neutralized*/)")
-			.replace(/POSITION\s*\([^)]*FROM\s+[^)]+\)/gi, "POSITION(/*neutralized*/)");
-
-		// Extract potential table references from SQL
-		const tablePattern =
-			/(?:FROM|JOIN)\s+(?:ONLY\s+)?(?:([a-zA-Z_][a-zA-Z0-9_]*)\.)?(["']?[a-zA-Z_][a-zA-Z0-9_]*["']?)/gi;
-		const matches = neutralizedSql.matchAll(tablePattern);
-
-		for (const match of matches) {
-			const schema = match[1] ?? this.defaultSchema;
-			const table = match[2]?.replace(/['"]/g, "");
-			if (table) {
-				const key = tableKey(schema, table);
-				if (!allowedSet.has(key)) {
-					throw new Error(
-						`Query references table "${schema}.${table}" which is not in the allowed tables list`,
-					);
-				}
-			}
-		}
-	}
-
-	/**
-	 * Convert named params to positional array for PostgreSQL
-	 * PostgreSQL expects $1, $2, $3 in SQL and an array of values [val1, val2, val3]
-	 */
-	private convertNamedToPositionalParams(
-		params: Record<string, string | number | boolean | string[] | number[]>,
-	): unknown[] {
-		// Separate numeric and named keys
-		const numericKeys = Object.keys(params)
-			.filter((k) => /^\d+$/.test(k))
-			.map((k) => Number.parseInt(k, 10))
-			.sort((a, b) => a - b);
-
-		const namedKeys = Object.keys(params)
-			.filter((k) => !/^\d+$/.test(k))
-			.sort(); // Alphabetical order for consistency
-
-		// Build positional array
-		const positionalParams: unknown[] = [];
-
-		// First, add values from numeric keys (in sorted order)
-		for (const key of numericKeys) {
-			let val: unknown = params[String(key)];
-			if (typeof val === "string") {
-				// Resolve placeholder tokens like `<tenant_id>` to their named values
-				const match = val.match(/^<([a-zA-Z0-9_]+)>$/);
-				const namedKey = match?.[1];
-				if (namedKey && namedKey in params) {
-					val = params[namedKey as keyof typeof params];
-				}
+		for (const reference of listTableReferences(sql, "postgres")) {
+			const schema = reference.schema ?? this.defaultSchema;
+			const key = tableKey(schema, reference.table);
+			if (!allowedSet.has(key)) {
+				throw new Error(
+					`Query references table "${schema}.${reference.table}" which is not in the allowed tables list`,
+				);
 			}
-			positionalParams.push(val);
-		}
-
-		// Then, add values from named keys (in alphabetical order)
-		for (const key of namedKeys) {
-			const val = params[key];
-			positionalParams.push(val);
 		}
-
-		return positionalParams;
 	}
 
 	async validate(
 		sql: string,
 		params?: Record<string, string | number | boolean | string[] | number[]>,
 	): Promise<void> {
-		let paramArray: unknown[] | undefined;
-		if (params) {
-			paramArray = this.convertNamedToPositionalParams(params);
-		}
-
-		await this.clientFn(`EXPLAIN ${sql}`, paramArray);
+		const bound = convertToNumberedParams(sql, params);
+		await this.clientFn(`EXPLAIN ${bound.sql}`, bound.values);
 	}
 
 	getDialect() {
@@ -194,8 +214,8 @@ export class PostgresAdapter implements DatabaseAdapter {
 	}
 
 	/**
-	 * Simplified introspection: only collect table/column metadata for IngestRequest
-	 * No indexes, constraints, or statistics
+	 * Simplified introspection: only collect table/column metadata and foreign
+	 * keys for IngestRequest. No indexes, check constraints, or statistics
 	 */
 	async introspect(options?: IntrospectOptions): Promise<SchemaIntrospection> {
 		// Use adapter-level allowedTables if no specific tables provided in options
@@ -214,6 +234,11 @@ export class PostgresAdapter implements DatabaseAdapter {
 		);
 		const columnRows = columnsResult.rows as ColumnRow[];
 
+		const foreignKeysResult = await this.clientFn(
+			buildForeignKeysQuery(normalizedTables),
+		);
+		const foreignKeyRows = foreignKeysResult.rows as ForeignKeyRow[];
+
 		const tablesByKey = new Map<string, TableSchema>();
 
 		// Build tables
@@ -244,6 +269,7 @@ export class PostgresAdapter implements DatabaseAdapter {
 				name: row.column_name,
 				type: row.data_type,
 				isPrimaryKey: row.is_primary_key,
+				nullable: row.is_nullable === "YES",
 			};
 
 			const rawType = row.udt_name ?? undefined;
@@ -252,9 +278,51 @@ export class PostgresAdapter implements DatabaseAdapter {
 			const comment = sanitize(row.description);
 			if (comment !== undefined) column.comment = comment;
 
+			const precision = toInteger(row.numeric_precision);
+			if (precision !== undefined) column.precision = precision;
+
+			const scale = toInteger(row.numeric_scale);
+			if (scale !== undefined) column.scale = scale;
+
+			const maxLength = toInteger(row.character_maximum_length);
+			if (maxLength !== undefined) column.maxLength = maxLength;
+
+			const enumValues = parseEnumLabels(row.enum_values);
+			if (enumValues !== undefined) column.enumValues = enumValues;
+
+			const defaultExpression = sanitize(row.column_default);
+			if (defaultExpression !== undefined) {
+				column.defaultExpression = defaultExpression;
+			}
+
 			table.columns.push(column);
 		}
 
+		// Build relationships
+		for (const row of foreignKeyRows) {
+			const table = tablesByKey.get(tableKey(row.table_schema, row.table_name));
+			if (!table) continue;
+
+			table.relationships ??= [];
+			let relationship = table.relationships.find(
+				(existing) => existing.name === row.constraint_name,
+			);
+			if (!relationship) {
+				relationship = {
+					name: row.constraint_name,
+					columns: [],
+					targetSchema: row.target_schema,
+					targetTable: row.target_table,
+					targetColumns: [],
+					cardinality: row.is_unique ? "one-to-one" : "many-to-one",
+					origin: "foreign_key",
+				};
+				table.relationships.push(relationship);
+			}
+			relationship.columns.push(row.column_name);
+			relationship.targetColumns.push(row.target_column);
+		}
+
 		const tables = Array.from(tablesByKey.values()).sort((a, b) => {
 			if (a.schema === b.schema) {
 				return a.name.localeCompare(b.name);
@@ -333,6 +401,17 @@ function buildColumnsQuery(tables: NormalizedTable[]): string {
     cols.data_type,
     cols.udt_name,
     pgd.description,
+    cols.is_nullable,
+    -- Binary precision of integer and float types says nothing useful
+    CASE WHEN cols.numeric_precision_radix = 10 THEN cols.numeric_precision END AS numeric_precision,
+    CASE WHEN cols.numeric_precision_radix = 10 THEN cols.numeric_scale END AS numeric_scale,
+    cols.character_maximum_length,
+    cols.column_default,
+    (
+      SELECT json_agg(e.enumlabel ORDER BY e.enumsortorder)
+      FROM pg_catalog.pg_enum e
+      WHERE e.enumtypid = attr.atttypid
+    ) AS enum_values,
     EXISTS(
       SELECT 1
       FROM information_schema.table_constraints tc
@@ -359,6 +438,45 @@ function buildColumnsQuery(tables: NormalizedTable[]): string {
   ORDER BY cols.table_schema, cols.table_name, cols.ordinal_position;`;
 }
 
+/**
+ * Foreign keys of the introspected tables, one row per column pair in key order.
+ * is_unique marks keys whose source columns are also a primary or unique key.
+ */
+function buildForeignKeysQuery(tables: NormalizedTable[]): string {
+	const filter = buildFilterClause(tables, "src_ns.nspname", "src.relname");
+	return `SELECT
+    con.conname AS constraint_name,
+    src_ns.nspname AS table_schema,
+    src.relname AS table_name,
+    src_att.attname AS column_name,
+    tgt_ns.nspname AS target_schema,
+    tgt.relname AS target_table,
+    tgt_att.attname AS target_column,
+    EXISTS(
+      SELECT 1
+      FROM pg_catalog.pg_constraint uniq
+      WHERE uniq.conrelid = con.conrelid
+        AND uniq.contype IN ('p', 'u')
+        AND uniq.conkey @> con.conkey
+        AND uniq.conkey <@ con.conkey
+    ) AS is_unique
+  FROM pg_catalog.pg_constraint con
+  CROSS JOIN LATERAL unnest(con.conkey, con.confkey)
+    WITH ORDINALITY AS fk(src_attnum, tgt_attnum, position)
+  JOIN pg_catalog.pg_class src ON src.oid = con.conrelid
+  JOIN pg_catalog.pg_namespace src_ns ON src_ns.oid = src.relnamespace
+  JOIN pg_catalog.pg_attribute src_att
+    ON src_att.attrelid = con.conrelid AND src_att.attnum = fk.src_attnum
+  JOIN pg_catalog.pg_class tgt ON tgt.oid = con.confrelid
+  JOIN pg_catalog.pg_namespace tgt_ns ON tgt_ns.oid = tgt.relnamespace
+  JOIN pg_catalog.pg_attribute tgt_att
+    ON tgt_att.attrelid = con.confrelid AND tgt_att.attnum = fk.tgt_attnum
+  WHERE con.contype = 'f'
+    AND src_ns.nspname NOT IN ('pg_catalog', 'information_schema')
+    ${filter}
+  ORDER BY src_ns.nspname, src.relname, con.conname, fk.position;`;
+}
+
 function buildFilterClause(
 	tables: NormalizedTable[],
 	schemaExpr: string,
@@ -392,3 +510,17 @@ function sanitize(value: unknown): string | undefined {
 	const trimmed = String(value).trim();
 	return trimmed.length ? trimmed : undefined;
 }
+
+function toInteger(value: unknown): number | undefined {
+	if (value === null || value === undefined) return undefined;
+	const parsed = Number.parseInt(String(value), 10);
+	return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function parseEnumLabels(value: string[] | string | null): string[] | undefined {
+	if (value === null) return undefined;
+	const labels: unknown = typeof value === "string" ? JSON.parse(value) : value;
+	return Array.isArray(labels) && labels.length > 0
+		? labels.map(String)
+		: undefined;
+}
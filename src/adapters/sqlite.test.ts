@@ -0,0 +1,143 @@
+import { describe, expect, it, vi } from "vitest";
+import { SqliteAdapter, type SqliteClientFn } from "./sqlite";
+
+describe("SqliteAdapter", () => {
+	const createMockClientFn = (): SqliteClientFn =>
+		vi.fn().mockResolvedValue({
+			rows: [{ id: 1, name: "Alice" }],
+		});
+
+	describe("execute", () => {
+		it("should bind named params positionally by default", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new SqliteAdapter(clientFn);
+
+			const result = await adapter.execute(
+				"SELECT * FROM users WHERE name = {name:String} AND tenant_id = :tenant_id",
+				{ tenant_id: "t-1", name: "Alice" },
+			);
+
+			expect(clientFn).toHaveBeenCalledWith(
+				"SELECT * FROM users WHERE name = ? AND tenant_id = ?",
+				["Alice", "t-1"],
+			);
+			expect(result).toEqual({
+				fields: ["id", "name"],
+				rows: [{ id: 1, name: "Alice" }],
+			});
+		});
+
+		it("should bind params by name when paramStyle is named", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new SqliteAdapter(clientFn, { paramStyle: "named" });
+
+			await adapter.execute(
+				"SELECT * FROM users WHERE name = {name:String} AND tenant_id = :tenant_id",
+				{ tenant_id: "t-1", name: "Alice" },
+			);
+
+			expect(clientFn).toHaveBeenCalledWith(
+				"SELECT * FROM users WHERE name = :name AND tenant_id = :tenant_id",
+				{ tenant_id: "t-1", name: "Alice" },
+			);
+		});
+
+		it("should prefer fields returned by the client", async () => {
+			const clientFn = vi.fn().mockResolvedValue({
+				rows: [],
+				fields: [{ name: "id" }],
+			});
+			const adapter = new SqliteAdapter(clientFn);
+
+			const result = await adapter.execute("SELECT id FROM users");
+
+			expect(result.fields).toEqual(["id"]);
+		});
+
+		it("should reject queries to tables not in the allowed list", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new SqliteAdapter(clientFn, {
+				allowedTables: ["users"],
+			});
+
+			await expect(
+				adapter.execute("SELECT * FROM users JOIN [orders] ON 1 = 1"),
+			).rejects.toThrow(
+				'Query references table "orders" which is not in the allowed tables list',
+			);
+			expect(clientFn).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("validate", () => {
+		it("should run EXPLAIN QUERY PLAN", async () => {
+			const clientFn = createMockClientFn();
+			const adapter = new SqliteAdapter(clientFn);
+
+			await adapter.validate("SELECT * FROM users WHERE id = :id", { id: 1 });
+
+			expect(clientFn).toHaveBeenCalledWith(
+				"EXPLAIN QUERY PLAN SELECT * FROM users WHERE id = ?",
+				[1],
+			);
+		});
+	});
+
+	describe("introspect", () => {
+		it("should read tables from sqlite_master and columns from PRAGMA table_info", async () => {
+			const clientFn = vi.fn(async (sql: string) => {
+				if (sql.includes("sqlite_master")) {
+					return {
+						rows: [
+							{ name: "orders", type: "table" },
+							{ name: "order_totals", type: "view" },
+						],
+					};
+				}
+				if (sql === 'PRAGMA table_info("orders")') {
+					return {
+						rows: [
+							{ cid: 1, name: "total", type: "REAL", notnull: 0, dflt_value: null, pk: 0 },
+							{ cid: 0, name: "id", type: "INTEGER", notnull: 1, dflt_value: null, pk: 1 },
+						],
+					};
+				}
+				return {
+					rows: [{ cid: 0, name: "sum", type: "", notnull: 0, dflt_value: null, pk: 0 }],
+				};
+			});
+			const adapter = new SqliteAdapter(clientFn, {
+				database: "local",
+				allowedTables: ["orders", "order_totals"],
+			});
+
+			const result = await adapter.introspect();
+
+			expect(clientFn.mock.calls[0]?.[0]).toContain(
+				"AND name IN ('orders', 'order_totals')",
+			);
+			expect(result.db).toEqual({ kind: "sqlite", name: "local" });
+			expect(result.tables).toEqual([
+				{
+					name: "orders",
+					schema: "local",
+					type: "table",
+					columns: [
+						{ name: "id", type: "integer", rawType: "INTEGER", isPrimaryKey: true },
+						{ name: "total", type: "real", rawType: "REAL", isPrimaryKey: false },
+					],
+				},
+				{
+					name: "order_totals",
+					schema: "local",
+					type: "view",
+					columns: [{ name: "sum", type: "any", isPrimaryKey: false }],
+				},
+			]);
+		});
+	});
+
+	it("should report sqlite dialect", () => {
+		expect(new SqliteAdapter(createMockClientFn()).getDialect()).toBe("sqlite");
+	});
+});
@@ -0,0 +1,229 @@
+import { listTableReferences } from "../core/tenant-isolation";
+import type {
+	ColumnSchema,
+	IntrospectOptions,
+	SchemaIntrospection,
+	TableSchema,
+} from "../schema/types";
+import {
+	convertNamedToPositionalParams,
+	convertToNamedParams,
+} from "../utils/params";
+import type { DatabaseAdapter, DatabaseExecutionResult } from "./types";
+
+export interface SqliteQueryResult {
+	rows: Array<Record<string, unknown>>;
+	/** Optional column list; derived from the first row when omitted. */
+	fields?: Array<{ name: string }>;
+}
+
+/**
+ * Client function running a statement and returning all rows.
+ * Receives a positional array for `?` binding or an object for `:name` binding,
+ * depending on `SqliteAdapterOptions.paramStyle`.
+ */
+export type SqliteClientFn = (
+	sql: string,
+	params?: unknown[] | Record<string, unknown>,
+) => Promise<SqliteQueryResult>;
+
+export interface SqliteAdapterOptions {
+	/** Logical database name used in introspection metadata. */
+	database?: string;
+	/** Optional database kind label. Defaults to "sqlite". */
+	kind?: SchemaIntrospection["db"]["kind"];
+	/**
+	 * How params are handed to the client function:
+	 * - "positional" (default): placeholders are rewritten to `?` and values passed as an array
+	 * - "named": placeholders are rewritten to `:name` and values passed as an object
+	 */
+	paramStyle?: "positional" | "named";
+	/**
+	 * Optional allow-list of table names.
+	 * When specified, introspection and queries are restricted to these tables only.
+	 */
+	allowedTables?: string[];
+}
+
+type TableRow = {
+	name: string;
+	type: string;
+};
+
+type PragmaColumnRow = {
+	cid: number;
+	name: string;
+	type: string | null;
+	notnull: number;
+	dflt_value: unknown;
+	pk: number;
+};
+
+/**
+ * Simplified SQLite / libSQL adapter following IngestRequest format
+ * Kept only: tables, columns (name, type, isPrimaryKey)
+ */
+export class SqliteAdapter implements DatabaseAdapter {
+	private readonly databaseName: string;
+	private readonly kind: SchemaIntrospection["db"]["kind"];
+	private readonly paramStyle: "positional" | "named";
+	private readonly allowedTables?: string[];
+
+	constructor(
+		private readonly clientFn: SqliteClientFn,
+		options: SqliteAdapterOptions = {},
+	) {
+		this.databaseName = options.database ?? "main";
+		this.kind = options.kind ?? "sqlite";
+		this.paramStyle = options.paramStyle ?? "positional";
+		if (options.allowedTables) {
+			this.allowedTables = normalizeTableFilter(options.allowedTables);
+		}
+	}
+
+	async execute(
+		sql: string,
+		params?: Record<string, string | number | boolean | string[] | number[]>,
+	): Promise<DatabaseExecutionResult> {
+		// Validate query against allowed tables if restrictions are in place
+		if (this.allowedTables) {
+			this.validateQueryTables(sql);
+		}
+
+		const bound = this.bindParams(sql, params);
+		const result = await this.clientFn(bound.sql, bound.values);
+		const rows = result.rows ?? [];
+		const fields = result.fields
+			? result.fields.map((f) => f.name)
+			: Object.keys(rows[0] ?? {});
+		return { fields, rows };
+	}
+
+	async validate(
+		sql: string,
+		params?: Record<string, string | number | boolean | string[] | number[]>,
+	): Promise<void> {
+		const bound = this.bindParams(sql, params);
+		await this.clientFn(`EXPLAIN QUERY PLAN ${bound.sql}`, bound.values);
+	}
+
+	getDialect() {
+		return "sqlite" as const;
+	}
+
+	/**
+	 * Simplified introspection via sqlite_master and PRAGMA table_info
+	 * SQLite has no column comments, so only names, types and primary keys are collected
+	 */
+	async introspect(options?: IntrospectOptions): Promise<SchemaIntrospection> {
+		// Use adapter-level allowedTables if no specific tables provided in options
+		const tablesToIntrospect = options?.tables
+			? normalizeTableFilter(options.tables)
+			: this.allowedTables;
+		const allowTables = tablesToIntrospect ?? [];
+
+		const tablesResult = await this.clientFn(buildTablesQuery(allowTables));
+		const tableRows = tablesResult.rows as TableRow[];
+
+		const tables: TableSchema[] = [];
+		for (const row of tableRows) {
+			const columnsResult = await this.clientFn(
+				`PRAGMA table_info(${quoteIdentifier(row.name)})`,
+			);
+			const columnRows = columnsResult.rows as PragmaColumnRow[];
+
+			tables.push({
+				name: row.name,
+				schema: this.databaseName,
+				type: row.type === "view" ? "view" : "table",
+				columns: columnRows
+					.slice()
+					.sort((a, b) => a.cid - b.cid)
+					.map(transformColumnRow),
+			});
+		}
+
+		return {
+			db: {
+				kind: this.kind,
+				name: this.databaseName,
+			},
+			tables,
+			introspectedAt: new Date().toISOString(),
+		};
+	}
+
+	private bindParams(
+		sql: string,
+		params?: Record<string, string | number | boolean | string[] | number[]>,
+	): { sql: string; values: unknown[] | Record<string, unknown> | undefined } {
+		return this.paramStyle === "named"
+			? convertToNamedParams(sql, params, ":")
+			: convertNamedToPositionalParams(sql, params);
+	}
+
+	private validateQueryTables(sql: string): void {
+		if (!this.allowedTables || this.allowedTables.length === 0) {
+			return;
+		}
+
+		const allowedSet = new Set(this.allowedTables);
+
+		for (const { table } of listTableReferences(sql, "sqlite")) {
+			if (!allowedSet.has(table)) {
+				throw new Error(
+					`Query references table "${table}" which is not in the allowed tables list`,
+				);
+			}
+		}
+	}
+}
+
+function normalizeTableFilter(tables?: string[] | null): string[] {
+	if (!tables?.length) return [];
+	const seen = new Set<string>();
+	const normalized: string[] = [];
+	for (const table of tables) {
+		if (!table) continue;
+		const trimmed = table.trim();
+		if (!trimmed) continue;
+		const parts = trimmed.split(".");
+		const tableName = parts[parts.length - 1];
+		if (!tableName || !isSafeIdentifier(tableName) || seen.has(tableName))
+			continue;
+		seen.add(tableName);
+		normalized.push(tableName);
+	}
+	return normalized;
+}
+
+function buildTablesQuery(tables: string[]): string {
+	const filter = tables.length
+		? `AND name IN (${tables.map((t) => `'${t}'`).join(", ")})`
+		: "";
+	return `SELECT name, type
+  FROM sqlite_master
+  WHERE type IN ('table', 'view')
+    AND name NOT LIKE 'sqlite_%'
+    ${filter}
+  ORDER BY name;`;
+}
+
+function transformColumnRow(row: PragmaColumnRow): ColumnSchema {
+	const rawType = row.type?.trim() ?? "";
+	const column: ColumnSchema = {
+		name: row.name,
+		type: rawType ? rawType.toLowerCase() : "any",
+		isPrimaryKey: Number(row.pk) > 0,
+	};
+	if (rawType) column.rawType = rawType;
+	return column;
+}
+
+function quoteIdentifier(value: string): string {
+	return `"${value.replace(/"/g, '""')}"`;
+}
+
+function isSafeIdentifier(value: string): boolean {
+	return /^[A-Za-z_][A-Za-z0-9_]*$/.test(value);
+}
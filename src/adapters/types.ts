@@ -3,13 +3,41 @@ import type {
   SchemaIntrospection,
 } from "../schema/types";
 
-export type DatabaseDialect = "clickhouse" | "postgres" | "mysql";
+export type DatabaseDialect =
+  | "clickhouse"
+  | "postgres"
+  | "mysql"
+  | "sqlite"
+  | "duckdb";
 
 export interface DatabaseExecutionResult {
   fields: string[];
   rows: Array<Record<string, unknown>>;
 }
 
+/**
+ * Limits the QueryEngine enforces itself and passes down so adapters can
+ * apply them server-side where the database supports it
+ */
+export interface ExecuteOptions {
+  /** Maximum number of rows the caller keeps */
+  maxRows?: number;
+  /** Statement timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Streaming limits; batchSize is a hint for how many rows each batch holds
+ */
+export interface StreamOptions extends ExecuteOptions {
+  batchSize?: number;
+}
+
+/**
+ * Rows of a streamed result, delivered in batches
+ */
+export type RowBatchStream = AsyncIterable<Array<Record<string, unknown>>>;
+
 /**
  * Database adapter interface for abstracting database-specific operations.
  * Allows the SDK to work with multiple database types.
@@ -19,12 +47,27 @@ export interface DatabaseAdapter {
    * Execute a SQL query and return results
    * @param sql - The SQL query to execute
    * @param params - Optional query parameters for parameterized queries
+   * @param options - Optional row and time limits to push down to the database
    */
   execute(
     sql: string,
     params?: Record<string, string | number | boolean | string[] | number[]>,
+    options?: ExecuteOptions,
   ): Promise<DatabaseExecutionResult>;
 
+  /**
+   * Optional: Execute a SQL query and yield its rows in batches without buffering
+   * the whole result. QueryEngine falls back to execute() when absent.
+   * @param sql - The SQL query to execute
+   * @param params - Optional query parameters for parameterized queries
+   * @param options - Optional row limit and batch size hint
+   */
+  stream?(
+    sql: string,
+    params?: Record<string, string | number | boolean | string[] | number[]>,
+    options?: StreamOptions,
+  ): RowBatchStream;
+
   /**
    * Validate SQL query (e.g., using EXPLAIN)
    * Throws an error if the SQL is invalid
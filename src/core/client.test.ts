@@ -1,6 +1,13 @@
+import { generateKeyPairSync, verify } from "node:crypto";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { ApiClient } from "./client";
-import { TEST_PRIVATE_KEY, TEST_ORG_ID, TEST_BASE_URL } from "../test-utils";
+import { QueryPanelApiError, RequestTimeoutError } from "./errors";
+import {
+	TEST_PRIVATE_KEY,
+	TEST_ORG_ID,
+	TEST_BASE_URL,
+	recordingTracer,
+} from "../test-utils";
 
 describe("ApiClient", () => {
 	const mockBaseUrl = TEST_BASE_URL;
@@ -192,6 +199,7 @@ describe("ApiClient", () => {
 		beforeEach(() => {
 			client = new ApiClient(mockBaseUrl, mockPrivateKey, mockOrgId, {
 				fetch: mockFetch,
+				retry: false,
 			});
 		});
 
@@ -228,6 +236,28 @@ describe("ApiClient", () => {
 			}
 		});
 
+		it("should throw QueryPanelApiError with code and request id", async () => {
+			mockFetch.mockResolvedValue({
+				ok: false,
+				status: 429,
+				statusText: "Too Many Requests",
+				headers: new Headers({ "x-request-id": "req-42" }),
+				text: async () =>
+					JSON.stringify({ error: "Slow down", code: "rate_limited" }),
+			});
+
+			const error = await client.get("/test", "tenant-1").catch((e) => e);
+
+			expect(error).toBeInstanceOf(QueryPanelApiError);
+			expect(error).toMatchObject({
+				name: "QueryPanelApiError",
+				message: "Slow down",
+				status: 429,
+				code: "rate_limited",
+				requestId: "req-42",
+			});
+		});
+
 		it("should handle non-JSON error responses", async () => {
 			mockFetch.mockResolvedValue({
 				ok: false,
@@ -242,6 +272,133 @@ describe("ApiClient", () => {
 		});
 	});
 
+	describe("retries", () => {
+		const unavailable = (headers?: Record<string, string>) => ({
+			ok: false,
+			status: 503,
+			statusText: "Service Unavailable",
+			headers: new Headers(headers),
+			text: async () => JSON.stringify({ error: "Unavailable" }),
+		});
+		const success = {
+			ok: true,
+			text: async () => JSON.stringify({ sql: "SELECT 1" }),
+		};
+
+		it("should retry transient statuses and reuse the idempotency key", async () => {
+			mockFetch
+				.mockResolvedValueOnce(unavailable())
+				.mockResolvedValueOnce(unavailable())
+				.mockResolvedValueOnce(success);
+			const client = new ApiClient(mockBaseUrl, mockPrivateKey, mockOrgId, {
+				fetch: mockFetch,
+				retry: { baseDelayMs: 0 },
+			});
+
+			const result = await client.post("/query", {}, "tenant-1");
+
+			expect(result).toEqual({ sql: "SELECT 1" });
+			expect(mockFetch).toHaveBeenCalledTimes(3);
+			const keys = mockFetch.mock.calls.map(
+				(call) => call[1].headers["Idempotency-Key"],
+			);
+			expect(keys[0]).toEqual(expect.any(String));
+			expect(new Set(keys).size).toBe(1);
+		});
+
+		it("should cancel the body of a response it retries", async () => {
+			const cancel = vi.fn(async () => {});
+			mockFetch
+				.mockResolvedValueOnce({ ...unavailable(), body: { cancel } })
+				.mockResolvedValueOnce(success);
+			const client = new ApiClient(mockBaseUrl, mockPrivateKey, mockOrgId, {
+				fetch: mockFetch,
+				retry: { baseDelayMs: 0 },
+			});
+
+			await client.get("/test", "tenant-1");
+
+			expect(cancel).toHaveBeenCalledTimes(1);
+		});
+
+		it("should give up after maxAttempts", async () => {
+			mockFetch.mockResolvedValue(unavailable());
+			const client = new ApiClient(mockBaseUrl, mockPrivateKey, mockOrgId, {
+				fetch: mockFetch,
+				retry: { maxAttempts: 2, baseDelayMs: 0 },
+			});
+
+			await expect(client.get("/test", "tenant-1")).rejects.toMatchObject({
+				status: 503,
+			});
+			expect(mockFetch).toHaveBeenCalledTimes(2);
+		});
+
+		it("should not retry other errors", async () => {
+			mockFetch.mockResolvedValue({
+				ok: false,
+				status: 400,
+				statusText: "Bad Request",
+				text: async () => JSON.stringify({ error: "Bad input" }),
+			});
+			const client = new ApiClient(mockBaseUrl, mockPrivateKey, mockOrgId, {
+				fetch: mockFetch,
+			});
+
+			await expect(client.get("/test", "tenant-1")).rejects.toThrow("Bad input");
+			expect(mockFetch).toHaveBeenCalledTimes(1);
+		});
+
+		it("should wait for Retry-After, capped at maxDelayMs", async () => {
+			mockFetch
+				.mockResolvedValueOnce(unavailable({ "retry-after": "120" }))
+				.mockResolvedValueOnce(success);
+			const client = new ApiClient(mockBaseUrl, mockPrivateKey, mockOrgId, {
+				fetch: mockFetch,
+				retry: { maxDelayMs: 50 },
+			});
+
+			const startedAt = Date.now();
+			const result = await client.get("/test", "tenant-1");
+
+			expect(result).toEqual({ sql: "SELECT 1" });
+			expect(mockFetch).toHaveBeenCalledTimes(2);
+			expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+		});
+
+		it("should time out each attempt and keep the caller's signal", async () => {
+			mockFetch.mockImplementation(
+				(_url: string, init: RequestInit) =>
+					new Promise((_, reject) => {
+						if (init.signal?.aborted) reject(new Error("aborted"));
+						init.signal?.addEventListener("abort", () =>
+							reject(new Error("aborted")),
+						);
+					}),
+			);
+			const client = new ApiClient(mockBaseUrl, mockPrivateKey, mockOrgId, {
+				fetch: mockFetch,
+				retry: false,
+				timeoutMs: 10,
+			});
+
+			await expect(client.get("/test", "tenant-1")).rejects.toBeInstanceOf(
+				RequestTimeoutError,
+			);
+
+			const controller = new AbortController();
+			const pending = client.get(
+				"/test",
+				"tenant-1",
+				undefined,
+				undefined,
+				controller.signal,
+			);
+			controller.abort();
+			await expect(pending).rejects.toThrow("aborted");
+		});
+	});
+
 	describe("JWT generation", () => {
 		it("should include organizationId and tenantId in JWT", async () => {
 			mockFetch.mockResolvedValue({
@@ -317,6 +474,324 @@ describe("ApiClient", () => {
 		});
 	});
 
+	describe("token claims, caching and keys", () => {
+		const decode = (call: any[]) => {
+			const token = call[1].headers.Authorization.replace("Bearer ", "");
+			const [header, payload, signature] = token.split(".");
+			return {
+				token,
+				data: `${header}.${payload}`,
+				header: JSON.parse(Buffer.from(header, "base64url").toString()),
+				payload: JSON.parse(Buffer.from(payload, "base64url").toString()),
+				signature: Buffer.from(signature, "base64url"),
+			};
+		};
+
+		beforeEach(() => {
+			mockFetch.mockResolvedValue({
+				ok: true,
+				text: async () => JSON.stringify({}),
+			});
+		});
+
+		it("should add iat, exp and jti claims with the configured TTL", async () => {
+			const client = new ApiClient(mockBaseUrl, mockPrivateKey, mockOrgId, {
+				fetch: mockFetch,
+				tokenTtlSeconds: 60,
+			});
+
+			await client.get("/test", "tenant-1");
+
+			const { header, payload } = decode(mockFetch.mock.calls[0]);
+			expect(header).toEqual({ alg: "RS256", typ: "JWT" });
+			expect(payload.exp - payload.iat).toBe(60);
+			expect(payload.iat).toBeCloseTo(Date.now() / 1000, -1);
+			expect(payload.jti).toEqual(expect.any(String));
+		});
+
+		it("should reuse cached tokens per tenant, user and scopes", async () => {
+			const client = new ApiClient(mockBaseUrl, mockPrivateKey, mockOrgId, {
+				fetch: mockFetch,
+			});
+
+			await client.get("/a", "tenant-1", "user-1", ["read", "write"]);
+			await client.get("/b", "tenant-1", "user-1", ["write", "read"]);
+			await client.get("/c", "tenant-2", "user-1", ["read", "write"]);
+
+			const [first, second, third] = mockFetch.mock.calls.map(decode);
+			expect(second?.token).toBe(first?.token);
+			expect(third?.token).not.toBe(first?.token);
+		});
+
+		it("should sign with ES256 and EdDSA keys and send the kid header", async () => {
+			const keys = [
+				{
+					algorithm: "ES256" as const,
+					pair: generateKeyPairSync("ec", { namedCurve: "P-256" }),
+				},
+				{
+					algorithm: "EdDSA" as const,
+					pair: generateKeyPairSync("ed25519"),
+				},
+			];
+
+			for (const { algorithm, pair } of keys) {
+				mockFetch.mockClear();
+				const client = new ApiClient(
+					mockBaseUrl,
+					pair.privateKey.export({ type: "pkcs8", format: "pem" }) as string,
+					mockOrgId,
+					{ fetch: mockFetch, algorithm, keyId: `key-${algorithm}` },
+				);
+
+				await client.get("/test", "tenant-1");
+
+				const { header, data, signature } = decode(mockFetch.mock.calls[0]);
+				expect(header).toMatchObject({ alg: algorithm, kid: `key-${algorithm}` });
+				expect(
+					verify(
+						algorithm === "ES256" ? "sha256" : null,
+						Buffer.from(data),
+						{ key: pair.publicKey, dsaEncoding: "ieee-p1363" },
+						signature,
+					),
+				).toBe(true);
+			}
+		});
+
+		it("should sign with PKCS#1 RSA keys", async () => {
+			const pair = generateKeyPairSync("rsa", { modulusLength: 2048 });
+			const client = new ApiClient(
+				mockBaseUrl,
+				pair.privateKey.export({ type: "pkcs1", format: "pem" }) as string,
+				mockOrgId,
+				{ fetch: mockFetch },
+			);
+
+			await client.get("/test", "tenant-1");
+
+			const { header, data, signature } = decode(mockFetch.mock.calls[0]);
+			expect(header.alg).toBe("RS256");
+			expect(
+				verify("sha256", Buffer.from(data), pair.publicKey, signature),
+			).toBe(true);
+		});
+
+		it("should reject keys it cannot parse when constructed", () => {
+			expect(
+				() =>
+					new ApiClient(mockBaseUrl, "-----BEGIN KEY-----", mockOrgId, {
+						fetch: mockFetch,
+					}),
+			).toThrow("Unsupported private key");
+		});
+
+		it("should switch keys and drop cached tokens on rotation", async () => {
+			const client = new ApiClient(mockBaseUrl, mockPrivateKey, mockOrgId, {
+				fetch: mockFetch,
+				keyId: "old",
+			});
+			const next = generateKeyPairSync("ed25519");
+
+			await client.get("/test", "tenant-1");
+			client.rotateSigningKey({
+				privateKey: next.privateKey.export({
+					type: "pkcs8",
+					format: "pem",
+				}) as string,
+				keyId: "new",
+				algorithm: "EdDSA",
+			});
+			await client.get("/test", "tenant-1");
+
+			const [before, after] = mockFetch.mock.calls.map(decode);
+			expect(before?.header.kid).toBe("old");
+			expect(after?.header).toMatchObject({ alg: "EdDSA", kid: "new" });
+		});
+	});
+
+	describe("external signing", () => {
+		beforeEach(() => {
+			mockFetch.mockResolvedValue({
+				ok: true,
+				text: async () => JSON.stringify({}),
+			});
+		});
+
+		it("should sign tokens with a custom signer instead of a private key", async () => {
+			const signer = vi.fn(async () => new Uint8Array([1, 2, 3]));
+			const client = new ApiClient(mockBaseUrl, undefined, mockOrgId, {
+				fetch: mockFetch,
+				signer,
+				algorithm: "ES256",
+				keyId: "kms-key-1",
+			});
+
+			await client.get("/test", "tenant-1");
+
+			const token = mockFetch.mock.calls[0][1].headers.Authorization.replace(
+				"Bearer ",
+				"",
+			);
+			const [header, payload, signature] = token.split(".");
+			expect(signer).toHaveBeenCalledWith(
+				new TextEncoder().encode(`${header}.${payload}`),
+			);
+			expect(JSON.parse(Buffer.from(header, "base64url").toString())).toEqual({
+				alg: "ES256",
+				typ: "JWT",
+				kid: "kms-key-1",
+			});
+			expect(signature).toBe(Buffer.from([1, 2, 3]).toString("base64url"));
+		});
+
+		it("should use tokens from a token provider as is", async () => {
+			const tokenProvider = vi.fn(async () => "vault-token");
+			const client = new ApiClient(mockBaseUrl, undefined, mockOrgId, {
+				fetch: mockFetch,
+				tokenProvider,
+			});
+
+			await client.get("/test", "tenant-1", "user-1", ["read"]);
+
+			expect(tokenProvider).toHaveBeenCalledWith({
+				organizationId: mockOrgId,
+				tenantId: "tenant-1",
+				userId: "user-1",
+				scopes: ["read"],
+			});
+			expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe(
+				"Bearer vault-token",
+			);
+		});
+
+		it("should refuse to rotate keys it does not hold", () => {
+			const next = { privateKey: mockPrivateKey, keyId: "new" };
+			const withSigner = new ApiClient(mockBaseUrl, undefined, mockOrgId, {
+				fetch: mockFetch,
+				signer: async () => new Uint8Array([1]),
+			});
+			const withProvider = new ApiClient(mockBaseUrl, undefined, mockOrgId, {
+				fetch: mockFetch,
+				tokenProvider: async () => "vault-token",
+			});
+
+			expect(() => withSigner.rotateSigningKey(next)).toThrow(
+				"rotate the key behind the signer or tokenProvider option instead",
+			);
+			expect(() => withProvider.rotateSigningKey(next)).toThrow(
+				"rotate the key behind the signer or tokenProvider option instead",
+			);
+		});
+	});
+
+	describe("tracing", () => {
+		it("should record client spans and send traceparent", async () => {
+			mockFetch.mockResolvedValue({
+				ok: true,
+				status: 200,
+				text: async () => JSON.stringify({}),
+			});
+			const { tracer, spans } = recordingTracer();
+			const client = new ApiClient(mockBaseUrl, mockPrivateKey, mockOrgId, {
+				fetch: mockFetch,
+				tracer,
+			});
+
+			await client.post("/query", {}, "tenant-1");
+
+			expect(spans.map((span) => span.name)).toEqual([
+				"querypanel.jwt.sign",
+				"POST /query",
+			]);
+			expect(spans[1]?.options).toEqual({
+				kind: 2,
+				attributes: {
+					"http.request.method": "POST",
+					"url.full": "https://api.example.com/query",
+				},
+			});
+			expect(spans[1]?.span.setAttribute).toHaveBeenCalledWith(
+				"http.response.status_code",
+				200,
+			);
+			expect(mockFetch.mock.calls[0][1].headers.traceparent).toBe(
+				"00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+			);
+		});
+	});
+
+	describe("middleware", () => {
+		it("should run middleware in order around the request", async () => {
+			mockFetch.mockResolvedValue({
+				ok: true,
+				text: async () => JSON.stringify({ value: 1 }),
+			});
+			const calls: string[] = [];
+			const client = new ApiClient(mockBaseUrl, mockPrivateKey, mockOrgId, {
+				fetch: mockFetch,
+				middleware: [
+					async (request, next) => {
+						calls.push("outer");
+						request.headers["x-correlation-id"] = "corr-1";
+						return await next(request);
+					},
+				],
+			});
+			client.use(async (request, next) => {
+				calls.push(`inner ${request.method} ${request.path}`);
+				const result = (await next({
+					...request,
+					body: { ...(request.body as object), redacted: true },
+				})) as { value: number };
+				return { value: result.value + 1 };
+			});
+
+			const result = await client.post("/query", { question: "q" }, "tenant-1");
+
+			expect(calls).toEqual(["outer", "inner POST /query"]);
+			expect(result).toEqual({ value: 2 });
+			const [, init] = mockFetch.mock.calls[0];
+			expect(init.headers["x-correlation-id"]).toBe("corr-1");
+			expect(JSON.parse(init.body)).toEqual({ question: "q", redacted: true });
+		});
+
+		it("should let middleware answer without sending a request", async () => {
+			const client = new ApiClient(mockBaseUrl, mockPrivateKey, mockOrgId, {
+				fetch: mockFetch,
+			}).use(async (request) => ({ mocked: request.tenantId }));
+
+			await expect(client.get("/charts", "tenant-1")).resolves.toEqual({
+				mocked: "tenant-1",
+			});
+			expect(mockFetch).not.toHaveBeenCalled();
+		});
+
+		it("should let middleware transform errors after retries", async () => {
+			mockFetch.mockResolvedValue({
+				ok: false,
+				status: 503,
+				statusText: "Service Unavailable",
+				text: async () => JSON.stringify({ error: "down" }),
+			});
+			const client = new ApiClient(mockBaseUrl, mockPrivateKey, mockOrgId, {
+				fetch: mockFetch,
+				retry: { maxAttempts: 2, baseDelayMs: 0 },
+			}).use(async (request, next) => {
+				try {
+					return await next(request);
+				} catch (error) {
+					throw new Error(`wrapped: ${(error as Error).message}`);
+				}
+			});
+
+			await expect(client.get("/test", "tenant-1")).rejects.toThrow(
+				"wrapped: down",
+			);
+			expect(mockFetch).toHaveBeenCalledTimes(2);
+		});
+	});
+
 	describe("additional headers", () => {
 		it("should include additional headers when provided", async () => {
 			mockFetch.mockResolvedValue({
@@ -0,0 +1,125 @@
+/**
+ * Error hierarchy shared by the client, the query engine and the routes.
+ * Callers branch on `instanceof` instead of parsing messages.
+ */
+
+/**
+ * Base class for every error thrown by the SDK
+ */
+export class QueryPanelError extends Error {
+	constructor(message: string, options?: { cause?: unknown }) {
+		super(message, options);
+		this.name = "QueryPanelError";
+	}
+}
+
+/**
+ * Non-2xx response from the QueryPanel API
+ */
+export class QueryPanelApiError extends QueryPanelError {
+	/** HTTP status code */
+	readonly status: number;
+	/** Machine-readable error code, when the API provides one */
+	readonly code?: string;
+	/** Extra error details from the response body */
+	readonly details?: unknown;
+	/** Request ID for support, from the `x-request-id` header or the body */
+	readonly requestId?: string;
+
+	constructor(
+		message: string,
+		init: {
+			status: number;
+			code?: string;
+			details?: unknown;
+			requestId?: string;
+		},
+	) {
+		super(message);
+		this.name = "QueryPanelApiError";
+		this.status = init.status;
+		this.code = init.code;
+		this.details = init.details;
+		this.requestId = init.requestId;
+	}
+}
+
+/**
+ * A QueryPanel API request did not respond within the configured timeoutMs
+ */
+export class RequestTimeoutError extends QueryPanelError {
+	constructor(
+		/** Request URL */
+		readonly url: string,
+		/** Timeout that elapsed, in milliseconds */
+		readonly timeoutMs: number,
+		options?: { cause?: unknown },
+	) {
+		super(`Request to ${url} timed out after ${timeoutMs}ms`, options);
+		this.name = "RequestTimeoutError";
+	}
+}
+
+/**
+ * No tenantId passed to the call and no defaultTenantId configured
+ */
+export class TenantRequiredError extends QueryPanelError {
+	constructor() {
+		super(
+			"tenantId is required. Provide it per request or via defaultTenantId option.",
+		);
+		this.name = "TenantRequiredError";
+	}
+}
+
+/**
+ * The requested database (or any database) has not been attached
+ */
+export class DatabaseNotAttachedError extends QueryPanelError {
+	constructor(
+		message: string,
+		/** Requested database name, undefined when none was attached at all */
+		readonly databaseName?: string,
+	) {
+		super(message);
+		this.name = "DatabaseNotAttachedError";
+	}
+}
+
+/**
+ * SQL rejected before execution: read-only guard, tenant isolation or EXPLAIN
+ */
+export class SqlValidationError extends QueryPanelError {
+	/** Attempt number within ask() retries, when known */
+	attempt?: number;
+
+	constructor(
+		message: string,
+		/** SQL that failed validation */
+		readonly sql: string,
+		options?: { cause?: unknown; attempt?: number },
+	) {
+		super(message, options);
+		this.name = "SqlValidationError";
+		this.attempt = options?.attempt;
+	}
+}
+
+/**
+ * SQL failed or timed out while running on the attached database
+ */
+export class SqlExecutionError extends QueryPanelError {
+	/** Attempt number within ask() retries, when known */
+	attempt?: number;
+
+	constructor(
+		message: string,
+		/** SQL sent to the database */
+		readonly sql: string,
+		options?: { cause?: unknown; attempt?: number },
+	) {
+		super(message, options);
+		this.name = "SqlExecutionError";
+		this.attempt = options?.attempt;
+	}
+}
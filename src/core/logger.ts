@@ -0,0 +1,22 @@
+/** Structured fields attached to a log entry (tenantId, sessionId, queryId, attempt, durationMs, ...) */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Structured logger with pino's call signature: `logger.warn(fields, message)`.
+ * A pino or bunyan instance can be passed as is; other libraries need a thin
+ * wrapper (winston: `warn: (fields, message) => logger.warn(message, fields)`).
+ */
+export interface Logger {
+	debug(fields: LogFields, message: string): void;
+	info(fields: LogFields, message: string): void;
+	warn(fields: LogFields, message: string): void;
+	error(fields: LogFields, message: string): void;
+}
+
+/** Default logger: the SDK writes nothing unless a logger is configured */
+export const silentLogger: Logger = {
+	debug() {},
+	info() {},
+	warn() {},
+	error() {},
+};
@@ -0,0 +1,46 @@
+/**
+ * A request as it passes through the middleware chain. Middleware may mutate
+ * it or pass a modified copy to next().
+ */
+export interface ApiRequest {
+	method: "GET" | "POST" | "PUT" | "DELETE";
+	/** Path relative to the base URL, e.g. `/query` */
+	path: string;
+	/** Outgoing headers, including Authorization */
+	headers: Record<string, string>;
+	/** JSON body before serialisation; undefined for GET and DELETE */
+	body?: unknown;
+	tenantId: string;
+	userId?: string;
+	signal?: AbortSignal;
+}
+
+/** Sends the request (or hands it to the next middleware) and resolves with the parsed response body */
+export type ApiNext = (request: ApiRequest) => Promise<unknown>;
+
+/**
+ * Wraps every API call, once per call rather than per retry attempt.
+ * It can add headers, time calls, return a canned response without calling
+ * next(), or catch and rethrow errors as different ones.
+ */
+export type Middleware = (
+	request: ApiRequest,
+	next: ApiNext,
+) => Promise<unknown>;
+
+/**
+ * Runs request through middleware in registration order, ending in send
+ */
+export function runMiddleware(
+	middleware: readonly Middleware[],
+	request: ApiRequest,
+	send: ApiNext,
+): Promise<unknown> {
+	const dispatch = (index: number, current: ApiRequest): Promise<unknown> => {
+		const handler = middleware[index];
+		return handler
+			? handler(current, (next) => dispatch(index + 1, next))
+			: send(current);
+	};
+	return dispatch(0, request);
+}
@@ -0,0 +1,137 @@
+import { createPrivateKey, type JsonWebKey, KeyObject } from "node:crypto";
+
+/** JWS algorithms the client can sign tokens with */
+export type JwtAlgorithm = "RS256" | "ES256" | "EdDSA";
+
+/**
+ * Private key as PEM (PKCS#1 `BEGIN RSA PRIVATE KEY`, PKCS#8 or encrypted
+ * PKCS#8), a private JWK or a Node.js KeyObject
+ */
+export type PrivateKeyInput = string | JsonWebKey | KeyObject;
+
+/**
+ * Private key used to sign API tokens
+ */
+export interface SigningKey {
+	privateKey: PrivateKeyInput;
+	/** Passphrase for an encrypted PEM key */
+	passphrase?: string;
+	/** Sent as the `kid` header so the API can pick the matching public key */
+	keyId?: string;
+	/** Inferred from the key type when omitted (RSA → RS256, P-256 → ES256, Ed25519 → EdDSA) */
+	algorithm?: JwtAlgorithm;
+}
+
+export interface ResolvedSigningKey {
+	keyObject: KeyObject;
+	keyId?: string;
+	algorithm: JwtAlgorithm;
+}
+
+/** Key type each algorithm signs with */
+const ALGORITHM_KEY_TYPES: Record<JwtAlgorithm, string> = {
+	RS256: "rsa",
+	ES256: "ec",
+	EdDSA: "ed25519",
+};
+
+/**
+ * Parses the key once so format problems surface in the constructor rather
+ * than on the first request
+ */
+export function resolveSigningKey(key: SigningKey): ResolvedSigningKey {
+	const keyObject = loadPrivateKey(key.privateKey, key.passphrase);
+	return {
+		keyObject,
+		keyId: key.keyId,
+		algorithm: signingAlgorithm(keyObject, key.algorithm),
+	};
+}
+
+function loadPrivateKey(
+	input: PrivateKeyInput,
+	passphrase?: string,
+): KeyObject {
+	if (input instanceof KeyObject) {
+		if (input.type !== "private") {
+			throw new Error(`Expected a private key, got a ${input.type} KeyObject`);
+		}
+		return input;
+	}
+
+	// PKCS#8 `BEGIN ENCRYPTED PRIVATE KEY` or legacy `Proc-Type: 4,ENCRYPTED`
+	const encrypted = typeof input === "string" && /ENCRYPTED/.test(input);
+	if (encrypted && passphrase === undefined) {
+		throw new Error(
+			"Private key is encrypted. Pass the passphrase option to decrypt it.",
+		);
+	}
+
+	try {
+		return typeof input === "string"
+			? createPrivateKey({ key: normalizePem(input), format: "pem", passphrase })
+			: createPrivateKey({ key: input, format: "jwk" });
+	} catch (error) {
+		if (encrypted) {
+			throw new Error(
+				"Could not decrypt the private key. Check the passphrase option.",
+				{ cause: error },
+			);
+		}
+		const reason = error instanceof Error ? error.message : String(error);
+		throw new Error(
+			`Unsupported private key: expected a PEM-encoded PKCS#1 or PKCS#8 key, a private JWK or a KeyObject (${reason})`,
+			{ cause: error },
+		);
+	}
+}
+
+/**
+ * Keys copied into environment variables often lose their line breaks: PEMs
+ * flattened to one line, with spaces or literal `\n` instead of newlines, or
+ * only the base64 body (taken as PKCS#8). Re-wraps them the way OpenSSL expects.
+ */
+function normalizePem(input: string): string {
+	const text = input.replace(/\\n/g, "\n").trim();
+	const match = /^-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----$/.exec(text);
+	if (!match && !/^[A-Za-z0-9+/=\s]+$/.test(text)) return input;
+
+	const label = match?.[1] ?? "PRIVATE KEY";
+	const body = match?.[2] ?? text;
+	// Legacy encrypted PEMs carry `Proc-Type:` / `DEK-Info:` headers that must keep their lines
+	if (body.includes(":")) return text;
+
+	const base64 = body.replace(/\s+/g, "");
+	const lines = base64.match(/.{1,64}/g) ?? [];
+	return `-----BEGIN ${label}-----\n${lines.join("\n")}\n-----END ${label}-----\n`;
+}
+
+function signingAlgorithm(
+	keyObject: KeyObject,
+	requested?: JwtAlgorithm,
+): JwtAlgorithm {
+	const keyType = keyObject.asymmetricKeyType;
+	const algorithm =
+		requested ??
+		(Object.keys(ALGORITHM_KEY_TYPES) as JwtAlgorithm[]).find(
+			(candidate) => ALGORITHM_KEY_TYPES[candidate] === keyType,
+		);
+
+	if (!algorithm) {
+		throw new Error(
+			`Unsupported private key type "${keyType}". Use an RSA, P-256 or Ed25519 key.`,
+		);
+	}
+	if (ALGORITHM_KEY_TYPES[algorithm] !== keyType) {
+		throw new Error(
+			`A private key of type "${keyType}" cannot sign ${algorithm} tokens`,
+		);
+	}
+	if (
+		algorithm === "ES256" &&
+		keyObject.asymmetricKeyDetails?.namedCurve !== "prime256v1"
+	) {
+		throw new Error("ES256 requires a P-256 (prime256v1) private key");
+	}
+	return algorithm;
+}
@@ -1,5 +1,14 @@
 import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
 import { type DatabaseMetadata, QueryEngine } from "./query-engine";
+import {
+	DatabaseNotAttachedError,
+	SqlExecutionError,
+	SqlValidationError,
+} from "./errors";
+import { silentLogger } from "./logger";
+import { MemoryResultCache } from "./result-cache";
+import { ReadOnlyViolationError } from "./statement-guard";
+import { recordingTracer } from "../test-utils";
 
 describe("QueryEngine", () => {
 	let queryEngine: QueryEngine;
@@ -97,6 +106,19 @@ describe("QueryEngine", () => {
 		it("should throw error if no database attached", () => {
 			expect(() => queryEngine.getDatabase()).toThrow("No database attached");
 		});
+
+		it("should throw DatabaseNotAttachedError with the requested name", () => {
+			const error = (() => {
+				try {
+					queryEngine.getDatabase("missing");
+				} catch (e) {
+					return e;
+				}
+			})();
+
+			expect(error).toBeInstanceOf(DatabaseNotAttachedError);
+			expect(error).toMatchObject({ databaseName: "missing" });
+		});
 	});
 
 	describe("getDatabaseMetadata", () => {
@@ -154,9 +176,220 @@ describe("QueryEngine", () => {
 			expect(result).toEqual({
 				rows: [{ id: 1, name: "test" }],
 				fields: ["id", "name"],
+				truncated: false,
+			});
+		});
+
+		it("should wrap validation failures in SqlValidationError", async () => {
+			mockAdapter.validate.mockRejectedValue(new Error("column x does not exist"));
+			queryEngine.attachDatabase("test-db", mockAdapter, {
+				name: "test-db",
+				dialect: "postgres",
+			});
+
+			const error = await queryEngine
+				.validateAndExecute("SELECT x FROM users", {}, "test-db", "tenant-1")
+				.catch((e) => e);
+
+			expect(error).toBeInstanceOf(SqlValidationError);
+			expect(error).toMatchObject({
+				message: "column x does not exist",
+				sql: "SELECT x FROM users",
+			});
+			expect(error.cause).toBeInstanceOf(Error);
+		});
+
+		it("should report validate and execute spans", async () => {
+			const { tracer, spans } = recordingTracer();
+			const tracedEngine = new QueryEngine(silentLogger, tracer);
+			mockAdapter.validate.mockResolvedValue(undefined);
+			mockAdapter.execute.mockResolvedValue({
+				rows: [{ id: 1 }, { id: 2 }],
+				fields: ["id"],
+			});
+			tracedEngine.attachDatabase("test-db", mockAdapter, {
+				name: "test-db",
+				dialect: "postgres",
+			});
+
+			await tracedEngine.validateAndExecute(
+				"SELECT id FROM users",
+				{},
+				"test-db",
+				"tenant-1",
+			);
+
+			expect(spans.map((span) => span.name)).toEqual([
+				"querypanel.sql.validate",
+				"querypanel.sql.execute",
+			]);
+			expect(spans[1]?.options.attributes).toEqual({
+				"db.system": "postgres",
+				"db.namespace": "test-db",
+			});
+			expect(spans[1]?.span.setAttribute).toHaveBeenCalledWith(
+				"db.response.returned_rows",
+				2,
+			);
+		});
+
+		it("should wrap execution failures in SqlExecutionError", async () => {
+			mockAdapter.execute.mockRejectedValue(new Error("connection reset"));
+			queryEngine.attachDatabase("test-db", mockAdapter, {
+				name: "test-db",
+				dialect: "postgres",
+			});
+
+			await expect(
+				queryEngine.validateAndExecute(
+					"SELECT * FROM users",
+					{},
+					"test-db",
+					"tenant-1",
+				),
+			).rejects.toBeInstanceOf(SqlExecutionError);
+		});
+
+		it("should append a LIMIT and flag truncated results", async () => {
+			const metadata: DatabaseMetadata = {
+				name: "test-db",
+				dialect: "postgres",
+				maxRows: 1,
+			};
+			mockAdapter.execute.mockResolvedValue({
+				rows: [{ id: 1 }, { id: 2 }],
+				fields: ["id"],
+			});
+
+			queryEngine.attachDatabase("test-db", mockAdapter, metadata);
+
+			const result = await queryEngine.validateAndExecute(
+				"SELECT * FROM users;",
+				{},
+				"test-db",
+				"tenant-1",
+			);
+
+			expect(mockAdapter.execute).toHaveBeenCalledWith(
+				"SELECT * FROM users LIMIT 2;",
+				{},
+				{ maxRows: 1, timeoutMs: undefined },
+			);
+			expect(result).toEqual({
+				rows: [{ id: 1 }],
+				fields: ["id"],
+				truncated: true,
 			});
 		});
 
+		it("should clamp an existing LIMIT and wrap only what it cannot limit in place", async () => {
+			queryEngine.attachDatabase("test-db", mockAdapter, {
+				name: "test-db",
+				dialect: "mysql",
+				maxRows: 99,
+				enforceReadOnly: false,
+			});
+			mockAdapter.execute.mockResolvedValue({ rows: [], fields: [] });
+			const run = async (sql: string) => {
+				await queryEngine.validateAndExecute(sql, {}, "test-db", "tenant-1");
+				return mockAdapter.execute.mock.lastCall?.[0];
+			};
+
+			await expect(
+				run("SELECT a.id, b.id FROM a JOIN b ON b.a_id = a.id ORDER BY a.id DESC -- newest"),
+			).resolves.toBe(
+				"SELECT a.id, b.id FROM a JOIN b ON b.a_id = a.id ORDER BY a.id DESC LIMIT 100 -- newest",
+			);
+			await expect(
+				run("SELECT * FROM orders ORDER BY id LIMIT 500 OFFSET 10"),
+			).resolves.toBe("SELECT * FROM orders ORDER BY id LIMIT 100 OFFSET 10");
+			await expect(run("SELECT * FROM orders LIMIT 20, 500")).resolves.toBe(
+				"SELECT * FROM orders LIMIT 20, 100",
+			);
+			await expect(run("SELECT * FROM orders LIMIT 5")).resolves.toBe(
+				"SELECT * FROM orders LIMIT 5",
+			);
+			await expect(
+				run("SELECT * FROM (SELECT id FROM orders LIMIT 500) o"),
+			).resolves.toBe("SELECT * FROM (SELECT id FROM orders LIMIT 500) o LIMIT 100");
+			await expect(run("SELECT * FROM orders LIMIT ?")).resolves.toBe(
+				"SELECT * FROM (\nSELECT * FROM orders LIMIT ?\n) AS qp_limited LIMIT 100",
+			);
+			await expect(run("(SELECT id FROM a) UNION (SELECT id FROM b)")).resolves.toBe(
+				"SELECT * FROM (\n(SELECT id FROM a) UNION (SELECT id FROM b)\n) AS qp_limited LIMIT 100",
+			);
+		});
+
+		it("should leave ClickHouse row limits to the adapter settings", async () => {
+			const metadata: DatabaseMetadata = {
+				name: "test-db",
+				dialect: "clickhouse",
+				maxRows: 100,
+				timeoutMs: 5000,
+			};
+
+			queryEngine.attachDatabase("test-db", mockAdapter, metadata);
+
+			await queryEngine.validateAndExecute(
+				"SELECT * FROM events",
+				{},
+				"test-db",
+				"tenant-1",
+			);
+
+			expect(mockAdapter.execute).toHaveBeenCalledWith(
+				"SELECT * FROM events",
+				{},
+				{ maxRows: 100, timeoutMs: 5000 },
+			);
+		});
+
+		it("should reject ClickHouse SETTINGS and FORMAT clauses that override the limits", async () => {
+			queryEngine.attachDatabase("test-db", mockAdapter, {
+				name: "test-db",
+				dialect: "clickhouse",
+				maxRows: 100,
+			});
+			mockAdapter.execute.mockResolvedValue({ rows: [], fields: [] });
+
+			for (const sql of [
+				"SELECT * FROM events SETTINGS max_result_rows = 0",
+				"SELECT * FROM (SELECT * FROM events SETTINGS max_execution_time = 0)",
+				"SELECT * FROM events FORMAT CSV",
+			]) {
+				await expect(
+					queryEngine.validateAndExecute(sql, {}, "test-db", "tenant-1"),
+				).rejects.toBeInstanceOf(SqlValidationError);
+			}
+			await queryEngine.validateAndExecute(
+				"SELECT settings, format(name) FROM events",
+				{},
+				"test-db",
+				"tenant-1",
+			);
+			expect(mockAdapter.execute).toHaveBeenCalledTimes(1);
+		});
+
+		it("should reject queries running longer than timeoutMs", async () => {
+			const metadata: DatabaseMetadata = {
+				name: "test-db",
+				dialect: "postgres",
+				timeoutMs: 10,
+			};
+			mockAdapter.execute.mockReturnValue(new Promise(() => {}));
+
+			queryEngine.attachDatabase("test-db", mockAdapter, metadata);
+
+			await expect(
+				queryEngine.validateAndExecute(
+					"SELECT * FROM users",
+					{},
+					"test-db",
+					"tenant-1",
+				),
+			).rejects.toThrow("exceeded the 10ms timeout");
+		});
+
 		it("should apply tenant isolation when configured", async () => {
 			const metadata: DatabaseMetadata = {
 				name: "test-db",
@@ -176,11 +409,58 @@ describe("QueryEngine", () => {
 
 			// Should have modified SQL to include tenant isolation
 			expect(mockAdapter.execute).toHaveBeenCalledWith(
-				"SELECT * FROM users WHERE tenant_id = 'tenant-123'",
-				{},
+				"SELECT * FROM users WHERE users.tenant_id = $tenant_id::text",
+				{ tenant_id: "tenant-123" },
 			);
 		});
 
+		it("should cast the Postgres tenant parameter to the declared type", async () => {
+			const metadata: DatabaseMetadata = {
+				name: "test-db",
+				dialect: "postgres",
+				tenantFieldName: "tenant_id",
+				tenantFieldType: "uuid",
+				enforceTenantIsolation: true,
+			};
+
+			queryEngine.attachDatabase("test-db", mockAdapter, metadata);
+
+			await queryEngine.validateAndExecute(
+				"SELECT * FROM users WHERE country = $1",
+				{ "1": "US" },
+				"test-db",
+				"tenant-123",
+			);
+
+			expect(mockAdapter.execute).toHaveBeenCalledWith(
+				"SELECT * FROM users WHERE users.tenant_id = $tenant_id::uuid AND (country = $1)",
+				{ "1": "US", tenant_id: "tenant-123" },
+			);
+		});
+
+		it("should not add the tenant value to the caller's params", async () => {
+			queryEngine.attachDatabase("test-db", mockAdapter, {
+				name: "test-db",
+				dialect: "postgres",
+				tenantFieldName: "tenant_id",
+				enforceTenantIsolation: true,
+			});
+			const params = { "1": "US" };
+
+			await queryEngine.validateAndExecute(
+				"SELECT * FROM users WHERE country = $1",
+				params,
+				"test-db",
+				"tenant-123",
+			);
+
+			expect(params).toEqual({ "1": "US" });
+			expect(mockAdapter.execute.mock.calls[0]?.[1]).toEqual({
+				"1": "US",
+				tenant_id: "tenant-123",
+			});
+		});
+
 		it("should not apply tenant isolation when enforceTenantIsolation is false", async () => {
 			const metadata: DatabaseMetadata = {
 				name: "test-db",
@@ -223,7 +503,53 @@ describe("QueryEngine", () => {
 			);
 
 			expect(mockAdapter.execute).toHaveBeenCalledWith(
-				"SELECT * FROM users WHERE tenant_id = {tenant_id:String}",
+				"SELECT * FROM users WHERE users.tenant_id = {tenant_id:String}",
+				{ tenant_id: "tenant-123" },
+			);
+		});
+
+		it("should handle MySQL tenant isolation format", async () => {
+			const metadata: DatabaseMetadata = {
+				name: "test-db",
+				dialect: "mysql",
+				tenantFieldName: "tenant_id",
+				enforceTenantIsolation: true,
+			};
+
+			queryEngine.attachDatabase("test-db", mockAdapter, metadata);
+
+			await queryEngine.validateAndExecute(
+				"SELECT * FROM users",
+				{},
+				"test-db",
+				"tenant-123",
+			);
+
+			expect(mockAdapter.execute).toHaveBeenCalledWith(
+				"SELECT * FROM users WHERE users.tenant_id = :tenant_id",
+				{ tenant_id: "tenant-123" },
+			);
+		});
+
+		it("should handle DuckDB tenant isolation format", async () => {
+			const metadata: DatabaseMetadata = {
+				name: "test-db",
+				dialect: "duckdb",
+				tenantFieldName: "tenant_id",
+				enforceTenantIsolation: true,
+			};
+
+			queryEngine.attachDatabase("test-db", mockAdapter, metadata);
+
+			await queryEngine.validateAndExecute(
+				"SELECT * FROM users",
+				{},
+				"test-db",
+				"tenant-123",
+			);
+
+			expect(mockAdapter.execute).toHaveBeenCalledWith(
+				"SELECT * FROM users WHERE users.tenant_id = $tenant_id",
 				{ tenant_id: "tenant-123" },
 			);
 		});
@@ -245,14 +571,13 @@ describe("QueryEngine", () => {
 				"tenant-123",
 			);
 
-			// Note: There's a double space due to the regex replacement
 			expect(mockAdapter.execute).toHaveBeenCalledWith(
-				"SELECT * FROM users WHERE tenant_id = 'tenant-123' AND  active = true",
-				{},
+				"SELECT * FROM users WHERE users.tenant_id = $tenant_id::text AND (active = true)",
+				{ tenant_id: "tenant-123" },
 			);
 		});
 
-		it("should not add tenant filter if already present", async () => {
+		it("should add tenant filter even if the query already filters on it", async () => {
 			const metadata: DatabaseMetadata = {
 				name: "test-db",
 				dialect: "postgres",
@@ -269,12 +594,295 @@ describe("QueryEngine", () => {
 				"tenant-123",
 			);
 
-			// Should not modify SQL if tenant field already present
+			// A model-written tenant filter must not widen access to another tenant
 			expect(mockAdapter.execute).toHaveBeenCalledWith(
-				"SELECT * FROM users WHERE tenant_id = 'other-tenant'",
+				"SELECT * FROM users WHERE users.tenant_id = $tenant_id::text AND (tenant_id = 'other-tenant')",
+				{ tenant_id: "tenant-123" },
+			);
+		});
+
+		it("should reject queries it cannot tenant-isolate", async () => {
+			const metadata: DatabaseMetadata = {
+				name: "test-db",
+				dialect: "postgres",
+				tenantFieldName: "tenant_id",
+				enforceTenantIsolation: true,
+				enforceReadOnly: false,
+			};
+
+			queryEngine.attachDatabase("test-db", mockAdapter, metadata);
+
+			await expect(
+				queryEngine.validateAndExecute(
+					"DELETE FROM users",
+					{},
+					"test-db",
+					"tenant-123",
+				),
+			).rejects.toThrow("Cannot apply tenant isolation");
+			expect(mockAdapter.execute).not.toHaveBeenCalled();
+		});
+
+		it("should reject write statements before validating them", async () => {
+			const metadata: DatabaseMetadata = {
+				name: "test-db",
+				dialect: "postgres",
+			};
+
+			queryEngine.attachDatabase("test-db", mockAdapter, metadata);
+
+			await expect(
+				queryEngine.validateAndExecute(
+					"DROP TABLE users",
+					{},
+					"test-db",
+					"tenant-123",
+				),
+			).rejects.toThrow(ReadOnlyViolationError);
+			expect(mockAdapter.validate).not.toHaveBeenCalled();
+		});
+
+		it("should allow write statements when enforceReadOnly is false", async () => {
+			const metadata: DatabaseMetadata = {
+				name: "test-db",
+				dialect: "postgres",
+				enforceReadOnly: false,
+			};
+
+			queryEngine.attachDatabase("test-db", mockAdapter, metadata);
+
+			await queryEngine.validateAndExecute(
+				"UPDATE users SET active = false",
+				{},
+				"test-db",
+				"tenant-123",
+			);
+
+			expect(mockAdapter.execute).toHaveBeenCalledWith(
+				"UPDATE users SET active = false",
+				{},
+			);
+		});
+	});
+
+	describe("validateAndStream", () => {
+		const collect = async (stream: AsyncIterable<unknown[]>) => {
+			const batches: unknown[][] = [];
+			for await (const rows of stream) batches.push(rows);
+			return batches;
+		};
+
+		it("should fall back to a single batch for adapters without stream()", async () => {
+			mockAdapter.validate.mockResolvedValue(undefined);
+			mockAdapter.execute.mockResolvedValue({ rows: [{ id: 1 }], fields: ["id"] });
+			queryEngine.attachDatabase("test-db", mockAdapter, {
+				name: "test-db",
+				dialect: "postgres",
+			});
+
+			const batches = await collect(
+				queryEngine.validateAndStream("SELECT * FROM users", {}, "test-db", "t1"),
+			);
+
+			expect(batches).toEqual([[{ id: 1 }]]);
+		});
+
+		it("should apply maxRows and timeoutMs to the single-batch fallback", async () => {
+			mockAdapter.validate.mockResolvedValue(undefined);
+			mockAdapter.execute.mockResolvedValue({
+				rows: [{ id: 1 }, { id: 2 }],
+				fields: ["id"],
+			});
+			queryEngine.attachDatabase("test-db", mockAdapter, {
+				name: "test-db",
+				dialect: "mysql",
+				maxRows: 1,
+				timeoutMs: 1000,
+			});
+
+			const batches = await collect(
+				queryEngine.validateAndStream("SELECT * FROM users", {}, "test-db", "t1"),
+			);
+
+			expect(batches).toEqual([[{ id: 1 }]]);
+			expect(mockAdapter.execute).toHaveBeenCalledWith(
+				"SELECT * FROM users LIMIT 2",
 				{},
+				{ maxRows: 1, timeoutMs: 1000 },
 			);
 		});
+
+		it("should stop streaming at maxRows", async () => {
+			const stream = vi.fn(async function* () {
+				yield [{ id: 1 }, { id: 2 }];
+				yield [{ id: 3 }, { id: 4 }];
+				yield [{ id: 5 }];
+			});
+			mockAdapter.validate.mockResolvedValue(undefined);
+			queryEngine.attachDatabase(
+				"test-db",
+				{ ...mockAdapter, getDialect: () => "clickhouse", stream },
+				{ name: "test-db", dialect: "clickhouse", maxRows: 3 },
+			);
+
+			const batches = await collect(
+				queryEngine.validateAndStream("SELECT * FROM events", {}, "test-db", "t1", {
+					batchSize: 2,
+				}),
+			);
+
+			expect(batches).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+			expect(stream).toHaveBeenCalledWith("SELECT * FROM events", {}, {
+				maxRows: 3,
+				timeoutMs: undefined,
+				batchSize: 2,
+			});
+		});
+
+		it("should hold a maxConcurrency slot until the stream is closed", async () => {
+			const stream = vi.fn(async function* () {
+				yield [{ id: 1 }];
+				yield [{ id: 2 }];
+			});
+			mockAdapter.validate.mockResolvedValue(undefined);
+			mockAdapter.execute.mockResolvedValue({ rows: [], fields: [] });
+			queryEngine.attachDatabase(
+				"test-db",
+				{ ...mockAdapter, stream },
+				{ name: "test-db", dialect: "postgres", maxConcurrency: 1 },
+			);
+
+			const batches = queryEngine
+				.validateAndStream("SELECT * FROM events", {}, "test-db", "t1")
+				[Symbol.asyncIterator]();
+			await batches.next();
+			const query = queryEngine.validateAndExecute("SELECT 1", {}, "test-db", "t1");
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			expect(mockAdapter.execute).not.toHaveBeenCalled();
+
+			await batches.return?.();
+			await query;
+			expect(mockAdapter.execute).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("result cache", () => {
+		beforeEach(() => {
+			queryEngine = new QueryEngine(silentLogger, undefined, {
+				store: new MemoryResultCache(),
+				ttlMs: 60_000,
+			});
+			mockAdapter.validate.mockResolvedValue(undefined);
+			mockAdapter.execute.mockResolvedValue({ rows: [{ id: 1 }], fields: ["id"] });
+			queryEngine.attachDatabase("test-db", mockAdapter, {
+				name: "test-db",
+				dialect: "postgres",
+				tenantFieldName: "tenant_id",
+			});
+		});
+
+		it("should serve repeated queries per tenant from the cache", async () => {
+			await queryEngine.validateAndExecute("SELECT id FROM users", {}, "test-db", "t1");
+			const cached = await queryEngine.validateAndExecute(
+				"SELECT id\n  FROM users -- reformatted",
+				{},
+				"test-db",
+				"t1",
+			);
+			await queryEngine.validateAndExecute("SELECT id FROM users", {}, "test-db", "t2");
+
+			expect(cached).toEqual({ rows: [{ id: 1 }], fields: ["id"], truncated: false });
+			expect(mockAdapter.execute).toHaveBeenCalledTimes(2);
+			expect(mockAdapter.execute.mock.calls[1]?.[1]).toEqual({ tenant_id: "t2" });
+		});
+
+		it("should bypass the cache when cacheTtlMs is 0", async () => {
+			await queryEngine.validateAndExecute("SELECT 1", {}, "test-db", "t1");
+			await queryEngine.validateAndExecute("SELECT 1", {}, "test-db", "t1", {
+				cacheTtlMs: 0,
+			});
+
+			expect(mockAdapter.execute).toHaveBeenCalledTimes(2);
+		});
+
+		it("should drop a tenant's results on invalidateCache", async () => {
+			await queryEngine.validateAndExecute("SELECT 1", {}, "test-db", "t1");
+			await queryEngine.validateAndExecute("SELECT 1", {}, "test-db", "t2");
+			await queryEngine.invalidateCache({ tenantId: "t1" });
+			await queryEngine.validateAndExecute("SELECT 1", {}, "test-db", "t1");
+			await queryEngine.validateAndExecute("SELECT 1", {}, "test-db", "t2");
+
+			expect(mockAdapter.execute).toHaveBeenCalledTimes(3);
+		});
+	});
+
+	describe("concurrency", () => {
+		const deferred = () => {
+			let resolve!: (value: unknown) => void;
+			const promise = new Promise((r) => {
+				resolve = r;
+			});
+			return { promise, resolve };
+		};
+
+		it("should run identical concurrent queries once", async () => {
+			const gate = deferred();
+			mockAdapter.validate.mockResolvedValue(undefined);
+			mockAdapter.execute.mockImplementation(async () => {
+				await gate.promise;
+				return { rows: [{ id: 1 }], fields: ["id"] };
+			});
+			queryEngine.attachDatabase("test-db", mockAdapter, {
+				name: "test-db",
+				dialect: "postgres",
+			});
+
+			const first = queryEngine.validateAndExecute("SELECT 1", {}, "test-db", "t1");
+			const second = queryEngine.validateAndExecute("SELECT 1", {}, "test-db", "t1");
+			const otherTenant = queryEngine.validateAndExecute(
+				"SELECT 1",
+				{},
+				"test-db",
+				"t2",
+			);
+			gate.resolve(undefined);
+			const [a, b] = await Promise.all([first, second, otherTenant]);
+
+			expect(mockAdapter.execute).toHaveBeenCalledTimes(2);
+			expect(b).toEqual(a);
+			expect(b?.rows[0]).not.toBe(a?.rows[0]);
+		});
+
+		it("should limit queries in flight per database", async () => {
+			const gates = [deferred(), deferred(), deferred()];
+			let running = 0;
+			let maxRunning = 0;
+			mockAdapter.validate.mockResolvedValue(undefined);
+			mockAdapter.execute.mockImplementation(async (sql: string) => {
+				running++;
+				maxRunning = Math.max(maxRunning, running);
+				await gates[Number(sql.slice(-1))]?.promise;
+				running--;
+				return { rows: [], fields: [] };
+			});
+			queryEngine.attachDatabase("test-db", mockAdapter, {
+				name: "test-db",
+				dialect: "postgres",
+				maxConcurrency: 2,
+			});
+
+			const queries = [0, 1, 2].map((i) =>
+				queryEngine.validateAndExecute(`SELECT ${i}`, {}, "test-db", "t1"),
+			);
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			expect(mockAdapter.execute).toHaveBeenCalledTimes(2);
+
+			for (const gate of gates) gate.resolve(undefined);
+			await Promise.all(queries);
+
+			expect(mockAdapter.execute).toHaveBeenCalledTimes(3);
+			expect(maxRunning).toBe(2);
+		});
 	});
 
 	describe("execute", () => {
@@ -373,6 +981,40 @@ describe("QueryEngine", () => {
 			});
 		});
 
+		it("should order params by placeholder position", () => {
+			const params = [
+				{ name: "status", placeholder: "$2", value: "active" },
+				{ name: "country", position: 1, value: "US" },
+			];
+
+			const result = queryEngine.mapGeneratedParams(params);
+
+			expect(result).toEqual({
+				"2": "<status>",
+				country: "US",
+				status: "active",
+			});
+			expect(Object.keys(result).filter((key) => !/^\d+$/.test(key))).toEqual([
+				"country",
+				"status",
+			]);
+		});
+
+		it("should map $n placeholders to their names, even without a value", () => {
+			const params = [
+				{ name: "tenant_id", placeholder: "$1" },
+				{ name: "country", placeholder: "$2", value: "US" },
+			];
+
+			const result = queryEngine.mapGeneratedParams(params);
+
+			expect(result).toEqual({
+				"1": "<tenant_id>",
+				"2": "<country>",
+				country: "US",
+			});
+		});
+
 		it("should skip params without value", () => {
 			const params = [
 				{ name: "param1", value: "value1" },
@@ -1,4 +1,34 @@
-import type { DatabaseAdapter, DatabaseDialect } from "../adapters/types";
+import type {
+	DatabaseAdapter,
+	DatabaseDialect,
+	RowBatchStream,
+} from "../adapters/types";
+import {
+	acquireSlot,
+	type ConcurrencyLimiter,
+	createConcurrencyLimiter,
+} from "../utils/concurrency";
+import {
+	isKeyword,
+	type SqlToken,
+	significantTokens,
+	tokenizeSql,
+} from "../utils/sql-tokenizer";
+import {
+	DatabaseNotAttachedError,
+	SqlExecutionError,
+	SqlValidationError,
+} from "./errors";
+import { type Logger, silentLogger } from "./logger";
+import {
+	type CacheScope,
+	cacheKeyPrefix,
+	type ResultCache,
+	resultCacheKey,
+} from "./result-cache";
+import { assertReadOnlyStatement } from "./statement-guard";
+import { applyTenantIsolation } from "./tenant-isolation";
+import { noopTracer, type Tracer, withSpan } from "./tracing";
 
 export type ParamValue = string | number | boolean | string[] | number[];
 export type ParamRecord = Record<string, ParamValue>;
@@ -11,11 +41,30 @@ export interface DatabaseMetadata {
 	tenantFieldName?: string;
 	tenantFieldType?: string;
 	enforceTenantIsolation?: boolean;
+	/** Reject anything but a single read-only query. Defaults to true. */
+	enforceReadOnly?: boolean;
+	/** Rows kept per query; larger results are cut and flagged as truncated */
+	maxRows?: number;
+	/** Statement timeout in milliseconds */
+	timeoutMs?: number;
+	/** Queries run at once against this database; further ones wait. Unlimited by default. */
+	maxConcurrency?: number;
 }
 
 export interface DatabaseExecutionResult {
 	rows: Array<Record<string, unknown>>;
 	fields: string[];
+	/** True when the result was cut at the database's maxRows */
+	truncated: boolean;
+}
+
+/** SQL ready to run, with the params and limits it runs under */
+interface PreparedQuery {
+	adapter: DatabaseAdapter;
+	sql: string;
+	params: ParamRecord;
+	maxRows?: number;
+	timeoutMs?: number;
 }
 
 /**
@@ -26,6 +75,14 @@ export class QueryEngine {
 	private databases = new Map<string, DatabaseAdapter>();
 	private databaseMetadata = new Map<string, DatabaseMetadata>();
 	private defaultDatabase?: string;
+	private limiters = new Map<string, ConcurrencyLimiter>();
+	private inFlight = new Map<string, Promise<DatabaseExecutionResult>>();
+
+	constructor(
+		private readonly logger: Logger = silentLogger,
+		private readonly tracer: Tracer = noopTracer,
+		private readonly resultCache?: { store: ResultCache; ttlMs: number },
+	) {}
 
 	attachDatabase(
 		name: string,
@@ -34,6 +91,11 @@ export class QueryEngine {
 	): void {
 		this.databases.set(name, adapter);
 		this.databaseMetadata.set(name, metadata);
+		if (metadata.maxConcurrency !== undefined) {
+			this.limiters.set(name, createConcurrencyLimiter(metadata.maxConcurrency));
+		} else {
+			this.limiters.delete(name);
+		}
 		if (!this.defaultDatabase) {
 			this.defaultDatabase = name;
 		}
@@ -42,14 +104,15 @@ export class QueryEngine {
 	getDatabase(name?: string): DatabaseAdapter {
 		const dbName = name ?? this.defaultDatabase;
 		if (!dbName) {
-			throw new Error("No database attached.");
+			throw new DatabaseNotAttachedError("No database attached.");
 		}
 		const adapter = this.databases.get(dbName);
 		if (!adapter) {
-			throw new Error(
+			throw new DatabaseNotAttachedError(
 				`Database '${dbName}' not found. Attached: ${Array.from(
 					this.databases.keys(),
 				).join(", ")}`,
+				dbName,
 			);
 		}
 		return adapter;
@@ -65,30 +128,202 @@ export class QueryEngine {
 		return this.defaultDatabase;
 	}
 
+	/**
+	 * Runs a query with every safety check. Identical queries (same SQL, params,
+	 * database and tenant) issued while one is running share its result. With a
+	 * result cache configured, results are served from it for cacheTtlMs
+	 * (0 bypasses the cache).
+	 */
 	async validateAndExecute(
 		sql: string,
 		params: ParamRecord,
 		databaseName: string,
 		tenantId: string,
+		options?: { cacheTtlMs?: number },
 	): Promise<DatabaseExecutionResult> {
-		const adapter = this.getDatabase(databaseName);
-		const metadata = this.getDatabaseMetadata(databaseName);
+		// Keyed before tenant isolation adds its param
+		const key = resultCacheKey(
+			databaseName,
+			tenantId,
+			sql,
+			params,
+			this.getDatabaseMetadata(databaseName)?.dialect,
+		);
+		const pending = this.inFlight.get(key);
+		if (pending) {
+			const shared = await pending;
+			return { ...shared, rows: shared.rows.map((row) => ({ ...row })) };
+		}
 
-		// Apply tenant isolation if configured
-		let finalSql = sql;
-		if (metadata) {
-			finalSql = this.ensureTenantIsolation(sql, params, metadata, tenantId);
+		const execution = this.executeCached(
+			key,
+			sql,
+			params,
+			databaseName,
+			tenantId,
+			options?.cacheTtlMs,
+		);
+		this.inFlight.set(key, execution);
+		try {
+			return await execution;
+		} finally {
+			this.inFlight.delete(key);
 		}
+	}
 
-		// Validate SQL
-		await adapter.validate(finalSql, params);
+	private async executeCached(
+		key: string,
+		sql: string,
+		params: ParamRecord,
+		databaseName: string,
+		tenantId: string,
+		cacheTtlMs?: number,
+	): Promise<DatabaseExecutionResult> {
+		const ttlMs = cacheTtlMs ?? this.resultCache?.ttlMs ?? 0;
+		if (!this.resultCache || ttlMs <= 0) {
+			return await this.executeUncached(sql, params, databaseName, tenantId);
+		}
 
-		// Execute
-		const result = await adapter.execute(finalSql, params);
-		return {
-			rows: result.rows,
-			fields: result.fields,
-		};
+		const { store } = this.resultCache;
+		try {
+			const cached = await store.get(key);
+			if (cached) return cached;
+		} catch (error) {
+			this.logger.warn(
+				{ database: databaseName, err: error },
+				"Failed to read query result cache",
+			);
+		}
+
+		const result = await this.executeUncached(
+			sql,
+			params,
+			databaseName,
+			tenantId,
+		);
+		try {
+			await store.set(key, result, ttlMs);
+		} catch (error) {
+			this.logger.warn(
+				{ database: databaseName, err: error },
+				"Failed to write query result cache",
+			);
+		}
+		return result;
+	}
+
+	/**
+	 * Drops cached results of a database, a tenant, or both; everything when
+	 * scope is omitted
+	 */
+	async invalidateCache(scope?: CacheScope): Promise<void> {
+		if (!this.resultCache) return;
+		const { store } = this.resultCache;
+		if (scope?.database === undefined && scope?.tenantId === undefined) {
+			await store.clear();
+			return;
+		}
+		const databases =
+			scope.database !== undefined
+				? [scope.database]
+				: Array.from(this.databases.keys());
+		await Promise.all(
+			databases.map((name) =>
+				store.clear(cacheKeyPrefix(name, scope.tenantId)),
+			),
+		);
+	}
+
+	/**
+	 * Waits for a free slot when the database has a maxConcurrency; validation
+	 * and execution both run inside it
+	 */
+	private async executeUncached(
+		sql: string,
+		params: ParamRecord,
+		databaseName: string,
+		tenantId: string,
+	): Promise<DatabaseExecutionResult> {
+		const limit = this.limiters.get(databaseName);
+		return limit
+			? await limit(() =>
+					this.executeNow(sql, params, databaseName, tenantId),
+				)
+			: await this.executeNow(sql, params, databaseName, tenantId);
+	}
+
+	private async executeNow(
+		sql: string,
+		params: ParamRecord,
+		databaseName: string,
+		tenantId: string,
+	): Promise<DatabaseExecutionResult> {
+		const prepared = await this.prepare(sql, params, databaseName, tenantId);
+		const { adapter, maxRows } = prepared;
+
+		return await withSpan(
+			this.tracer,
+			"querypanel.sql.execute",
+			{ "db.system": adapter.getDialect(), "db.namespace": databaseName },
+			async (span) => {
+				const result = await executeLimited(prepared, databaseName).catch(
+					(error: unknown) => {
+						throw toSqlError(SqlExecutionError, error, prepared.sql);
+					},
+				);
+
+				const truncated = maxRows !== undefined && result.rows.length > maxRows;
+				const rows = truncated ? result.rows.slice(0, maxRows) : result.rows;
+				span.setAttribute("db.response.returned_rows", rows.length);
+				span.setAttribute("querypanel.truncated", truncated);
+				return { rows, fields: result.fields, truncated };
+			},
+		);
+	}
+
+	/**
+	 * Same checks as validateAndExecute, but rows are yielded in batches as the
+	 * database returns them. Adapters without stream() yield a single batch.
+	 * A maxConcurrency slot is held until the stream finishes or is closed.
+	 */
+	async *validateAndStream(
+		sql: string,
+		params: ParamRecord,
+		databaseName: string,
+		tenantId: string,
+		options?: { batchSize?: number },
+	): RowBatchStream {
+		const limit = this.limiters.get(databaseName);
+		const release = limit ? await acquireSlot(limit) : undefined;
+		try {
+			const prepared = await this.prepare(sql, params, databaseName, tenantId);
+			const { adapter, maxRows, timeoutMs } = prepared;
+
+			const batches = adapter.stream
+				? adapter.stream(prepared.sql, prepared.params, {
+						maxRows,
+						timeoutMs,
+						batchSize: options?.batchSize,
+					})
+				: singleBatch(executeLimited(prepared, databaseName));
+
+			let remaining = maxRows ?? Number.POSITIVE_INFINITY;
+			try {
+				for await (const rows of batches) {
+					if (rows.length >= remaining) {
+						// Returning early closes the adapter's cursor
+						if (remaining > 0) yield rows.slice(0, remaining);
+						return;
+					}
+					remaining -= rows.length;
+					if (rows.length > 0) yield rows;
+				}
+			} catch (error) {
+				throw toSqlError(SqlExecutionError, error, prepared.sql);
+			}
+		} finally {
+			release?.();
+		}
 	}
 
 	async execute(
@@ -101,34 +336,111 @@ export class QueryEngine {
 			const result = await adapter.execute(sql, params);
 			return result.rows;
 		} catch (error) {
-			console.warn(
-				`Failed to execute SQL locally for database '${databaseName}':`,
-				error,
+			this.logger.warn(
+				{ database: databaseName, err: error },
+				"Failed to execute SQL locally",
 			);
 			return [];
 		}
 	}
 
+	/**
+	 * Params are recorded in placeholder order (by `position` or a `$n` placeholder).
+	 * A named param with a `$n` placeholder also gets the numeric key "n" holding
+	 * `<name>`, so positional adapters bind slot n to that name even when its value
+	 * is only added later (the tenant id)
+	 */
 	mapGeneratedParams(params: Array<Record<string, unknown>>): ParamRecord {
 		const record: ParamRecord = {};
 
-		params.forEach((param, index) => {
+		const ordered = params
+			.map((param, index) => ({ param, index }))
+			.sort(
+				(a, b) =>
+					placeholderPosition(a.param, a.index) -
+					placeholderPosition(b.param, b.index),
+			);
+
+		ordered.forEach(({ param, index }) => {
 			const value = param.value as ParamValue | undefined;
-			if (value === undefined) {
-				return;
-			}
 			const nameCandidate =
 				(typeof param.name === "string" && param.name.trim()) ||
 				(typeof param.placeholder === "string" && param.placeholder.trim()) ||
 				(typeof param.position === "number" && String(param.position)) ||
 				String(index + 1);
 			const key = nameCandidate.replace(/[{}:$]/g, "").trim();
-			record[key] = value;
+			const slot =
+				typeof param.placeholder === "string"
+					? /^\$(\d+)$/.exec(param.placeholder.trim())?.[1]
+					: undefined;
+			if (slot && slot !== key) {
+				record[slot] = `<${key}>`;
+			}
+			if (value !== undefined) {
+				record[key] = value;
+			}
 		});
 
 		return record;
 	}
 
+	/**
+	 * Read-only guard, tenant isolation, EXPLAIN validation and row limit wrapping.
+	 * The tenant value goes into a copy of params, so the caller's record (also
+	 * returned to users) never gains the tenant key.
+	 */
+	private async prepare(
+		sql: string,
+		callerParams: ParamRecord,
+		databaseName: string,
+		tenantId: string,
+	): Promise<PreparedQuery> {
+		const params = { ...callerParams };
+		const adapter = this.getDatabase(databaseName);
+		const metadata = this.getDatabaseMetadata(databaseName);
+
+		// Reject DDL/DML before anything reaches the database
+		if (metadata?.enforceReadOnly !== false) {
+			assertReadOnlyStatement(sql, metadata?.dialect ?? adapter.getDialect());
+		}
+
+		if (
+			metadata?.dialect === "clickhouse" &&
+			(metadata.maxRows !== undefined || metadata.timeoutMs !== undefined)
+		) {
+			assertNoQuerySettings(sql);
+		}
+
+		// Apply tenant isolation if configured
+		let finalSql = sql;
+		if (metadata) {
+			finalSql = this.ensureTenantIsolation(sql, params, metadata, tenantId);
+		}
+
+		// Validate SQL
+		await withSpan(
+			this.tracer,
+			"querypanel.sql.validate",
+			{ "db.system": adapter.getDialect(), "db.namespace": databaseName },
+			() =>
+				adapter.validate(finalSql, params).catch((error: unknown) => {
+					throw toSqlError(SqlValidationError, error, finalSql);
+				}),
+		);
+
+		const maxRows = metadata?.maxRows;
+		return {
+			adapter,
+			params,
+			sql:
+				maxRows !== undefined && metadata?.dialect !== "clickhouse"
+					? applyRowLimit(finalSql, maxRows + 1, metadata?.dialect)
+					: finalSql,
+			maxRows,
+			timeoutMs: metadata?.timeoutMs,
+		};
+	}
+
 	private ensureTenantIsolation(
 		sql: string,
 		params: ParamRecord,
@@ -143,33 +455,218 @@ export class QueryEngine {
 		}
 
 		const tenantField = metadata.tenantFieldName;
-		const normalizedSql = sql.toLowerCase();
-		if (normalizedSql.includes(tenantField.toLowerCase())) {
-			return sql;
-		}
-
-		let tenantPredicate: string;
+		let tenantValue: string;
 
 		if (metadata.dialect === "clickhouse") {
 			// ClickHouse supports named parameters natively
 			const paramKey = tenantField;
 			params[paramKey] = tenantId;
-			tenantPredicate = `${tenantField} = {${tenantField}:${metadata.tenantFieldType ?? "String"}}`;
+			tenantValue = `{${tenantField}:${metadata.tenantFieldType ?? "String"}}`;
+		} else if (metadata.dialect === "mysql" || metadata.dialect === "sqlite") {
+			// MySQL/SQLite adapters bind named params by name or in order of appearance, so adding one is safe
+			params[tenantField] = tenantId;
+			tenantValue = `:${tenantField}`;
+		} else if (metadata.dialect === "duckdb") {
+			// DuckDB binds $name params from an object, so adding one is safe
+			params[tenantField] = tenantId;
+			tenantValue = `$${tenantField}`;
 		} else {
-			// Postgres (and others): Use literal to avoid modifying 'params' object.
-			// Modifying 'params' can break positional parameter mapping (e.g. $1, $2)
-			// because PostgresAdapter sorts named keys alphabetically to assign positions.
-			const escapedId = tenantId.replace(/'/g, "''");
-			tenantPredicate = `${tenantField} = '${escapedId}'`;
+			// PostgresAdapter numbers named placeholders after the existing $1..$n,
+			// so the tenant id is bound as a parameter without shifting positions
+			params[tenantField] = tenantId;
+			tenantValue = `$${tenantField}::${postgresCastType(metadata.tenantFieldType)}`;
 		}
 
-		if (/\bwhere\b/i.test(sql)) {
-			return sql.replace(
-				/\bwhere\b/i,
-				(match) => `${match} ${tenantPredicate} AND `,
+		// Every base table gets its own predicate, even when the query already
+		// filters on the tenant field (it may filter on another tenant's value)
+		return applyTenantIsolation(sql, {
+			dialect: metadata.dialect,
+			tenantField,
+			tenantValue,
+		});
+	}
+}
+
+/**
+ * Explicit placeholder position of a generated param, or its index when it has none
+ */
+function placeholderPosition(
+	param: Record<string, unknown>,
+	index: number,
+): number {
+	if (typeof param.position === "number") return param.position;
+	if (typeof param.placeholder === "string") {
+		const match = /^\$(\d+)$/.exec(param.placeholder.trim());
+		if (match) return Number.parseInt(match[1] as string, 10);
+	}
+	return index + 1;
+}
+
+/**
+ * Tenant field types default to ClickHouse names; map them to Postgres casts
+ */
+function postgresCastType(type?: string): string {
+	if (!type || type === "String") return "text";
+	return type;
+}
+
+/**
+ * ClickHouse gets maxRows and timeoutMs as request settings, which a
+ * `SETTINGS max_result_rows = 0, ...` or `FORMAT` clause in the SQL overrides
+ */
+function assertNoQuerySettings(sql: string): void {
+	const tokens = significantTokens(tokenizeSql(sql, "clickhouse"));
+	let depth = 0;
+	tokens.forEach((token, index) => {
+		if (token.type === "punct" && token.value === "(") depth += 1;
+		if (token.type === "punct" && token.value === ")") depth -= 1;
+		const settings =
+			isKeyword(token, "SETTINGS") && tokens[index + 2]?.value === "=";
+		const format =
+			depth === 0 &&
+			isKeyword(token, "FORMAT") &&
+			tokens[index + 1]?.type === "word";
+		if (settings || format) {
+			throw new SqlValidationError(
+				`${token.value.toUpperCase()} clauses are not allowed when maxRows or timeoutMs is set`,
+				sql,
 			);
 		}
+	});
+}
+
+/**
+ * Caps a SELECT with a LIMIT (ClickHouse uses max_result_rows instead). A plain
+ * SELECT gets a LIMIT appended, or its own LIMIT clamped, so duplicate column
+ * names and the ORDER BY the limit applies to survive; anything else is wrapped
+ * in an outer SELECT.
+ */
+function applyRowLimit(
+	sql: string,
+	limit: number,
+	dialect?: DatabaseDialect,
+): string {
+	const tokens = significantTokens(tokenizeSql(sql, dialect));
+	const last = tokens[tokens.length - 1];
+	const statement = last?.value === ";" ? tokens.slice(0, -1) : tokens;
+	const first = statement.find((token) => token.value !== "(");
+	if (!isKeyword(first, "SELECT", "WITH", "VALUES")) {
+		return sql;
+	}
+
+	const clauses = new Map<string, number>();
+	let depth = 0;
+	statement.forEach((token, index) => {
+		if (token.type === "punct" && token.value === "(") depth += 1;
+		if (token.type === "punct" && token.value === ")") depth -= 1;
+		if (depth === 0 && isKeyword(token, "LIMIT", "OFFSET", "FETCH", "FOR")) {
+			clauses.set(token.value.toUpperCase(), index);
+		}
+	});
 
-		return `${sql} WHERE ${tenantPredicate}`;
+	const plain = isKeyword(statement[0], "SELECT", "WITH");
+	const limitIndex = clauses.get("LIMIT");
+	if (plain && clauses.size === 0) {
+		const end = (statement[statement.length - 1] as SqlToken).end;
+		return `${sql.slice(0, end)} LIMIT ${limit}${sql.slice(end)}`;
+	}
+	if (plain && limitIndex !== undefined && !clauses.has("FETCH")) {
+		const count = limitCount(statement, limitIndex);
+		if (count) {
+			if (count.type === "number" && Number(count.value) <= limit) return sql;
+			return `${sql.slice(0, count.start)}${limit}${sql.slice(count.end)}`;
+		}
+	}
+
+	const body = last?.value === ";" ? sql.slice(0, last.start) : sql;
+	return `SELECT * FROM (\n${body}\n) AS qp_limited LIMIT ${limit}`;
+}
+
+/**
+ * Row count token of `LIMIT n [OFFSET m]`, `LIMIT m, n` or `LIMIT ALL`, when it
+ * is a literal the limit can be clamped in
+ */
+function limitCount(
+	tokens: SqlToken[],
+	limitIndex: number,
+): SqlToken | undefined {
+	const rest = tokens.slice(limitIndex + 1);
+	const [first, separator, second] = rest;
+	if (isKeyword(first, "ALL") && rest.length === 1) return first;
+	if (first?.type !== "number" || !/^\d+$/.test(first.value)) return undefined;
+	if (rest.length === 1 || isKeyword(separator, "OFFSET")) return first;
+	if (
+		separator?.value === "," &&
+		second?.type === "number" &&
+		/^\d+$/.test(second.value) &&
+		rest.length === 3
+	) {
+		return second;
+	}
+	return undefined;
+}
+
+/**
+ * Executes prepared SQL within the configured row and time limits
+ */
+async function executeLimited(
+	prepared: PreparedQuery,
+	databaseName: string,
+): Promise<{ rows: Array<Record<string, unknown>>; fields: string[] }> {
+	const { adapter, params, maxRows, timeoutMs } = prepared;
+	const execution =
+		maxRows === undefined && timeoutMs === undefined
+			? adapter.execute(prepared.sql, params)
+			: adapter.execute(prepared.sql, params, { maxRows, timeoutMs });
+	return await withTimeout(execution, timeoutMs, databaseName);
+}
+
+async function* singleBatch(
+	execution: Promise<{ rows: Array<Record<string, unknown>> }>,
+): RowBatchStream {
+	yield (await execution).rows;
+}
+
+/**
+ * Stops waiting for a query after timeoutMs. The database-side timeout
+ * (statement_timeout, max_execution_time) is what actually cancels it.
+ */
+async function withTimeout<T>(
+	promise: Promise<T>,
+	timeoutMs: number | undefined,
+	databaseName: string,
+): Promise<T> {
+	if (timeoutMs === undefined) {
+		return promise;
+	}
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => {
+			reject(
+				new Error(
+					`Query on database '${databaseName}' exceeded the ${timeoutMs}ms timeout`,
+				),
+			);
+		}, timeoutMs);
+	});
+	try {
+		return await Promise.race([promise, timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+/**
+ * Wraps a database error with the SQL that caused it, keeping the original message
+ */
+function toSqlError(
+	ErrorClass: typeof SqlValidationError | typeof SqlExecutionError,
+	error: unknown,
+	sql: string,
+): Error {
+	if (error instanceof SqlValidationError || error instanceof SqlExecutionError) {
+		return error;
 	}
+	const message = error instanceof Error ? error.message : String(error);
+	return new ErrorClass(message, sql, { cause: error });
 }
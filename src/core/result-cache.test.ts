@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MemoryResultCache, resultCacheKey } from "./result-cache";
+
+const result = (id: number) => ({
+	rows: [{ id }],
+	fields: ["id"],
+	truncated: false,
+});
+
+describe("MemoryResultCache", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should evict the least recently used entry", () => {
+		const cache = new MemoryResultCache(2);
+		cache.set("a", result(1), 1000);
+		cache.set("b", result(2), 1000);
+		cache.get("a");
+		cache.set("c", result(3), 1000);
+
+		expect(cache.get("a")).toEqual(result(1));
+		expect(cache.get("b")).toBeUndefined();
+		expect(cache.get("c")).toEqual(result(3));
+	});
+
+	it("should expire entries after their TTL", () => {
+		vi.useFakeTimers();
+		const cache = new MemoryResultCache();
+		cache.set("a", result(1), 1000);
+
+		vi.advanceTimersByTime(999);
+		expect(cache.get("a")).toEqual(result(1));
+		vi.advanceTimersByTime(1);
+		expect(cache.get("a")).toBeUndefined();
+	});
+
+	it("should not share row objects with callers", () => {
+		const cache = new MemoryResultCache();
+		cache.set("a", result(1), 1000);
+
+		const first = cache.get("a");
+		if (first?.rows[0]) first.rows[0].id = 99;
+
+		expect(cache.get("a")).toEqual(result(1));
+	});
+
+	it("should clear entries by key prefix", () => {
+		const cache = new MemoryResultCache();
+		cache.set("querypanel:db:t1:x", result(1), 1000);
+		cache.set("querypanel:db:t2:x", result(2), 1000);
+
+		cache.clear("querypanel:db:t1:");
+
+		expect(cache.get("querypanel:db:t1:x")).toBeUndefined();
+		expect(cache.get("querypanel:db:t2:x")).toEqual(result(2));
+	});
+});
+
+describe("resultCacheKey", () => {
+	it("should ignore formatting and param order but not values", () => {
+		const key = resultCacheKey("db", "t1", "SELECT a FROM t WHERE b = $1", {
+			x: 1,
+			y: 2,
+		});
+
+		expect(
+			resultCacheKey("db", "t1", "SELECT a\n  FROM t /* c */ WHERE b = $1", {
+				y: 2,
+				x: 1,
+			}),
+		).toBe(key);
+		expect(
+			resultCacheKey("db", "t1", "SELECT a FROM t WHERE b = $1", { x: 1, y: 3 }),
+		).not.toBe(key);
+		expect(key.startsWith("querypanel:db:t1:")).toBe(true);
+	});
+});
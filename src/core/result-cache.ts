@@ -0,0 +1,125 @@
+import crypto from "node:crypto";
+import type { DatabaseDialect } from "../adapters/types";
+import { significantTokens, tokenizeSql } from "../utils/sql-tokenizer";
+
+/** A cached query result, as returned by QueryEngine.validateAndExecute */
+export interface CachedResult {
+	rows: Array<Record<string, unknown>>;
+	fields: string[];
+	truncated: boolean;
+}
+
+/**
+ * Storage for query results. Implement it over Redis, Memcached or similar to
+ * share results between processes; methods may be sync or async.
+ */
+export interface ResultCache {
+	get(
+		key: string,
+	): Promise<CachedResult | undefined> | CachedResult | undefined;
+	set(key: string, value: CachedResult, ttlMs: number): Promise<void> | void;
+	/** Removes entries whose key starts with prefix, or every entry when omitted */
+	clear(prefix?: string): Promise<void> | void;
+}
+
+export interface ResultCacheOptions {
+	/** Defaults to an in-memory LRU cache */
+	store?: ResultCache;
+	/** Entries kept by the default in-memory cache. Defaults to 500. */
+	maxEntries?: number;
+	/** Default time to live in milliseconds. Defaults to 60 seconds. */
+	ttlMs?: number;
+}
+
+/** What invalidateChartCache() clears; everything when both are omitted */
+export interface CacheScope {
+	database?: string;
+	tenantId?: string;
+}
+
+export const DEFAULT_RESULT_CACHE_TTL_MS = 60_000;
+const DEFAULT_MAX_ENTRIES = 500;
+const KEY_NAMESPACE = "querypanel";
+
+/**
+ * In-memory LRU cache. Results are copied in and out, so callers can't
+ * modify a cached entry.
+ */
+export class MemoryResultCache implements ResultCache {
+	private readonly entries = new Map<
+		string,
+		{ value: CachedResult; expiresAt: number }
+	>();
+
+	constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+	get(key: string): CachedResult | undefined {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+		if (entry.expiresAt <= Date.now()) {
+			this.entries.delete(key);
+			return undefined;
+		}
+		// Re-insert to mark as most recently used
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return structuredClone(entry.value);
+	}
+
+	set(key: string, value: CachedResult, ttlMs: number): void {
+		this.entries.delete(key);
+		while (this.entries.size >= this.maxEntries) {
+			const oldest = this.entries.keys().next().value;
+			if (oldest === undefined) break;
+			this.entries.delete(oldest);
+		}
+		this.entries.set(key, {
+			value: structuredClone(value),
+			expiresAt: Date.now() + ttlMs,
+		});
+	}
+
+	clear(prefix?: string): void {
+		if (prefix === undefined) {
+			this.entries.clear();
+			return;
+		}
+		for (const key of [...this.entries.keys()]) {
+			if (key.startsWith(prefix)) this.entries.delete(key);
+		}
+	}
+}
+
+/**
+ * Key prefix shared by every result of a database, or of one tenant in it
+ */
+export function cacheKeyPrefix(database: string, tenantId?: string): string {
+	const prefix = `${KEY_NAMESPACE}:${encodeURIComponent(database)}:`;
+	return tenantId === undefined
+		? prefix
+		: `${prefix}${encodeURIComponent(tenantId)}:`;
+}
+
+/**
+ * Database, tenant and a hash of the SQL and params. Whitespace and comments
+ * are ignored so reformatted SQL shares an entry.
+ */
+export function resultCacheKey(
+	database: string,
+	tenantId: string,
+	sql: string,
+	params: Record<string, unknown>,
+	dialect?: DatabaseDialect,
+): string {
+	const normalizedSql = significantTokens(tokenizeSql(sql, dialect))
+		.map((token) => token.value)
+		.join(" ");
+	const sortedParams = Object.keys(params)
+		.sort()
+		.map((name) => [name, params[name]]);
+	const hash = crypto
+		.createHash("sha256")
+		.update(JSON.stringify([normalizedSql, sortedParams]))
+		.digest("hex");
+	return `${cacheKeyPrefix(database, tenantId)}${hash}`;
+}
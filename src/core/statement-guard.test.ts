@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+	assertReadOnlyStatement,
+	ReadOnlyViolationError,
+} from "./statement-guard";
+
+describe("assertReadOnlyStatement", () => {
+	it("should allow read-only queries", () => {
+		for (const sql of [
+			"SELECT * FROM orders;",
+			"WITH t AS (SELECT 1) SELECT * FROM t",
+			"(SELECT 1) UNION (SELECT 2)",
+			"SELECT t.update, 'DROP TABLE x' AS note FROM t -- delete me",
+			"SELECT * FROM orders TABLESAMPLE SYSTEM (10)",
+			"EXPLAIN SELECT 1",
+			"SELECT host, load FROM servers",
+			"SELECT system, call FROM phone_logs",
+			"SELECT do, lock, reset, set FROM flags",
+			"SELECT (update) FROM t",
+			"DESCRIBE orders",
+		]) {
+			expect(() => assertReadOnlyStatement(sql, "postgres")).not.toThrow();
+		}
+	});
+
+	it("should reject DDL and DML statements", () => {
+		for (const sql of [
+			"INSERT INTO orders VALUES (1)",
+			"UPDATE orders SET total = 0",
+			"DELETE FROM orders",
+			"DROP TABLE orders",
+			"ALTER TABLE orders ADD COLUMN x int",
+			"TRUNCATE orders",
+			"GRANT ALL ON orders TO public",
+			"SET search_path = evil",
+		]) {
+			expect(() => assertReadOnlyStatement(sql, "postgres")).toThrow(
+				ReadOnlyViolationError,
+			);
+		}
+	});
+
+	it("should reject writes hidden inside a read-only statement", () => {
+		for (const sql of [
+			"WITH d AS (DELETE FROM orders RETURNING *) SELECT * FROM d",
+			"SELECT * INTO backup FROM orders",
+			"EXPLAIN ANALYZE DELETE FROM orders",
+			"SELECT set_config('role', 'admin', false)",
+			"SELECT * FROM orders FOR UPDATE",
+			"SELECT * FROM orders FOR SHARE",
+			"SELECT * FROM orders FOR KEY SHARE",
+			"SELECT * FROM orders FOR NO KEY UPDATE",
+			"WITH x AS (SELECT 1) INSERT INTO t SELECT * FROM x",
+			"EXPLAIN (FORMAT JSON) DELETE FROM orders",
+		]) {
+			expect(() => assertReadOnlyStatement(sql, "postgres")).toThrow(
+				ReadOnlyViolationError,
+			);
+		}
+	});
+
+	it("should reject multiple statements", () => {
+		expect(() =>
+			assertReadOnlyStatement("SELECT 1; DROP TABLE orders", "postgres"),
+		).toThrow("Multiple statements");
+	});
+
+	it("should reject COPY ... TO PROGRAM", () => {
+		expect(() =>
+			assertReadOnlyStatement(
+				"COPY (SELECT * FROM orders) TO PROGRAM 'curl evil'",
+				"postgres",
+			),
+		).toThrow(expect.objectContaining({ keyword: "COPY" }));
+	});
+
+	it("should reject ClickHouse SYSTEM and OPTIMIZE statements", () => {
+		expect(() =>
+			assertReadOnlyStatement("SYSTEM DROP DNS CACHE", "clickhouse"),
+		).toThrow(ReadOnlyViolationError);
+		expect(() =>
+			assertReadOnlyStatement("OPTIMIZE TABLE events FINAL", "clickhouse"),
+		).toThrow(ReadOnlyViolationError);
+	});
+
+	it("should reject MySQL executable comments", () => {
+		expect(() =>
+			assertReadOnlyStatement("SELECT 1 /*! INTO OUTFILE '/tmp/x' */", "mysql"),
+		).toThrow("may be executed");
+		expect(() =>
+			assertReadOnlyStatement("SELECT 1 /*!50000 INTO OUTFILE '/tmp/x' */", "mysql"),
+		).toThrow(ReadOnlyViolationError);
+		expect(() =>
+			assertReadOnlyStatement("SELECT 1 /* INTO OUTFILE '/tmp/x' */", "mysql"),
+		).not.toThrow();
+	});
+
+	it("should reject MySQL SELECT ... INTO and locking reads", () => {
+		for (const sql of [
+			"SELECT * FROM orders INTO OUTFILE '/tmp/orders.csv'",
+			"SELECT id INTO @x FROM orders",
+			"SELECT * FROM orders LOCK IN SHARE MODE",
+			"SELECT * FROM orders FOR SHARE",
+		]) {
+			expect(() => assertReadOnlyStatement(sql, "mysql")).toThrow(
+				ReadOnlyViolationError,
+			);
+		}
+	});
+
+	it("should follow MySQL and ClickHouse line comment rules when splitting statements", () => {
+		for (const dialect of ["mysql", "clickhouse"] as const) {
+			expect(() =>
+				assertReadOnlyStatement("SELECT 1 # '\n; DROP TABLE t; -- '", dialect),
+			).toThrow("Multiple statements");
+		}
+		expect(() =>
+			assertReadOnlyStatement("SELECT 1 --1; DROP TABLE t", "mysql"),
+		).toThrow("Multiple statements");
+		expect(() =>
+			assertReadOnlyStatement("SELECT 1 -- note; DROP TABLE t", "mysql"),
+		).not.toThrow();
+	});
+});
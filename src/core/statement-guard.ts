@@ -0,0 +1,229 @@
+import type { DatabaseDialect } from "../adapters/types";
+import { SqlValidationError } from "./errors";
+import {
+	findUnsafeComment,
+	isKeyword,
+	type SqlToken,
+	significantTokens,
+	tokenizeSql,
+} from "../utils/sql-tokenizer";
+
+/**
+ * Thrown when SQL sent for execution is not a single read-only query
+ */
+export class ReadOnlyViolationError extends SqlValidationError {
+	constructor(
+		message: string,
+		sql: string,
+		/** Keyword that made the statement unsafe, when there is one */
+		readonly keyword?: string,
+	) {
+		super(message, sql);
+		this.name = "ReadOnlyViolationError";
+	}
+}
+
+/** Statements allowed to start a read-only query */
+const READ_ONLY_STARTS = new Set([
+	"SELECT",
+	"WITH",
+	"VALUES",
+	"TABLE",
+	"SHOW",
+	"DESCRIBE",
+	"DESC",
+	"EXPLAIN",
+]);
+
+/**
+ * Keywords that write data, change schema, permissions or session state, or
+ * reach outside the database. They only count where a statement starts, so
+ * columns such as `load` or `system` stay readable.
+ */
+const WRITE_KEYWORDS = new Set([
+	"INSERT",
+	"UPDATE",
+	"DELETE",
+	"MERGE",
+	"UPSERT",
+	"DROP",
+	"ALTER",
+	"TRUNCATE",
+	"CREATE",
+	"RENAME",
+	"GRANT",
+	"REVOKE",
+	"SET",
+	"RESET",
+	"COPY",
+	"INTO",
+	"CALL",
+	"DO",
+	"VACUUM",
+	"LOCK",
+	"SYSTEM",
+	"OPTIMIZE",
+	"ATTACH",
+	"DETACH",
+	"KILL",
+	"INSTALL",
+	"LOAD",
+	"PRAGMA",
+]);
+
+/** Statements that can follow a CTE list or open a data-modifying CTE */
+const DML_KEYWORDS = new Set(["INSERT", "UPDATE", "DELETE", "MERGE", "UPSERT"]);
+
+/** Functions with side effects that can be called from a SELECT */
+const WRITE_FUNCTIONS = new Set([
+	"set_config",
+	"nextval",
+	"setval",
+	"pg_terminate_backend",
+	"pg_cancel_backend",
+	"pg_reload_conf",
+	"lo_import",
+	"lo_export",
+	"dblink_exec",
+]);
+
+/**
+ * Rejects anything but a single read-only statement.
+ * Keywords are matched on tokens, so words inside strings, comments and quoted
+ * identifiers never trigger it, and neither do column names such as `t.update`.
+ */
+export function assertReadOnlyStatement(
+	sql: string,
+	dialect?: DatabaseDialect,
+): void {
+	const allTokens = tokenizeSql(sql, dialect);
+	const comment = findUnsafeComment(allTokens, dialect);
+	if (comment) {
+		throw new ReadOnlyViolationError(
+			`Comment "${comment.value.slice(0, 20)}" may be executed and is not allowed`,
+			sql,
+		);
+	}
+	const tokens = significantTokens(allTokens);
+
+	const separator = tokens.findIndex(
+		(token) => token.type === "punct" && token.value === ";",
+	);
+	if (
+		separator !== -1 &&
+		tokens.slice(separator + 1).some((token) => token.value !== ";")
+	) {
+		throw new ReadOnlyViolationError(
+			"Multiple statements are not allowed; send a single read-only query",
+			sql,
+		);
+	}
+
+	const first = tokens.find((token) => token.value !== "(");
+	if (!first) {
+		throw new ReadOnlyViolationError("Empty statement", sql);
+	}
+	if (first.type !== "word" || !READ_ONLY_STARTS.has(first.value.toUpperCase())) {
+		throw new ReadOnlyViolationError(
+			`Statement "${first.value}" is not a read-only query`,
+			sql,
+			first.value.toUpperCase(),
+		);
+	}
+
+	tokens.forEach((token, index) => {
+		if (token.type !== "word" || isIdentifierPosition(tokens, index)) return;
+
+		const upper = token.value.toUpperCase();
+		const isCall = tokens[index + 1]?.value === "(";
+		if (isCall && WRITE_FUNCTIONS.has(token.value.toLowerCase())) {
+			throw new ReadOnlyViolationError(
+				`Function "${token.value}" has side effects and is not allowed`,
+				sql,
+				upper,
+			);
+		}
+		if (isWriteClause(tokens, index)) {
+			throw new ReadOnlyViolationError(
+				`"${upper}" is not allowed in a read-only query`,
+				sql,
+				upper,
+			);
+		}
+	});
+
+	const firstIndex = tokens.indexOf(first);
+	const explained = explainedKeyword(tokens, firstIndex);
+	if (explained && WRITE_KEYWORDS.has(explained)) {
+		throw new ReadOnlyViolationError(
+			`"${explained}" is not allowed in a read-only query`,
+			sql,
+			explained,
+		);
+	}
+
+	// EXPLAIN ANALYZE executes the statement it explains
+	const afterFirst = tokens[firstIndex + 1];
+	if (isKeyword(first, "EXPLAIN") && isKeyword(afterFirst, "ANALYZE")) {
+		throw new ReadOnlyViolationError(
+			"EXPLAIN ANALYZE executes the statement and is not allowed",
+			sql,
+			"ANALYZE",
+		);
+	}
+}
+
+/**
+ * First keyword of the statement an EXPLAIN (or MySQL DESCRIBE) wraps
+ */
+function explainedKeyword(
+	tokens: SqlToken[],
+	firstIndex: number,
+): string | undefined {
+	if (isKeyword(tokens[firstIndex], "DESCRIBE", "DESC")) {
+		const next = tokens[firstIndex + 1];
+		return next?.type === "word" && !isIdentifierPosition(tokens, firstIndex + 1)
+			? next.value.toUpperCase()
+			: undefined;
+	}
+	if (!isKeyword(tokens[firstIndex], "EXPLAIN")) return undefined;
+	// Skip options such as ANALYZE, (FORMAT JSON) or FORMAT=JSON
+	return tokens
+		.slice(firstIndex + 1)
+		.map((token) => (token.type === "word" ? token.value.toUpperCase() : ""))
+		.find((word) => READ_ONLY_STARTS.has(word) || WRITE_KEYWORDS.has(word));
+}
+
+/**
+ * `SELECT ... INTO`, `FOR UPDATE` / `FOR [KEY] SHARE` / `LOCK IN SHARE MODE`
+ * locks, and DML opening a CTE body (`AS (DELETE ...`) or following the CTE
+ * list (`) INSERT INTO ...`)
+ */
+function isWriteClause(tokens: SqlToken[], index: number): boolean {
+	const token = tokens[index] as SqlToken;
+	const previous = tokens[index - 1];
+	const next = tokens[index + 1];
+	if (isKeyword(token, "INTO")) return true;
+	if (isKeyword(token, "UPDATE", "SHARE") && isKeyword(previous, "FOR", "KEY")) {
+		return true;
+	}
+	if (isKeyword(token, "LOCK") && isKeyword(next, "IN")) return true;
+	return (
+		DML_KEYWORDS.has(token.value.toUpperCase()) &&
+		(previous?.value === "(" || previous?.value === ")") &&
+		(next?.type === "word" || next?.type === "quoted")
+	);
+}
+
+/**
+ * Words used as a qualified column (`t.update`) or alias (`AS delete`) are identifiers
+ */
+function isIdentifierPosition(tokens: SqlToken[], index: number): boolean {
+	const previous = tokens[index - 1];
+	const next = tokens[index + 1];
+	return (
+		previous?.value === "." ||
+		next?.value === "." ||
+		isKeyword(previous, "AS")
+	);
+}
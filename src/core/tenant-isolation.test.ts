@@ -0,0 +1,296 @@
+import { describe, expect, it } from "vitest";
+import {
+	applyTenantIsolation,
+	listTableReferences,
+} from "./tenant-isolation";
+
+const postgres = {
+	dialect: "postgres" as const,
+	tenantField: "tenant_id",
+	tenantValue: "'t1'",
+};
+
+const clickhouse = {
+	dialect: "clickhouse" as const,
+	tenantField: "tenant_id",
+	tenantValue: "{tenant_id:String}",
+};
+
+describe("applyTenantIsolation", () => {
+	it("should add a predicate per table alias", () => {
+		expect(
+			applyTenantIsolation(
+				"SELECT o.id, c.name FROM orders o JOIN customers AS c ON c.id = o.customer_id",
+				postgres,
+			),
+		).toBe(
+			"SELECT o.id, c.name FROM orders o JOIN customers AS c ON c.tenant_id = 't1' AND (c.id = o.customer_id) WHERE o.tenant_id = 't1'",
+		);
+	});
+
+	it("should filter the joined side of a LEFT JOIN inside its ON clause", () => {
+		expect(
+			applyTenantIsolation(
+				"SELECT * FROM orders o LEFT JOIN refunds r ON r.order_id = o.id WHERE o.total > 10",
+				postgres,
+			),
+		).toBe(
+			"SELECT * FROM orders o LEFT JOIN refunds r ON r.tenant_id = 't1' AND (r.order_id = o.id) WHERE o.tenant_id = 't1' AND (o.total > 10)",
+		);
+	});
+
+	it("should filter the preserved side of a RIGHT JOIN", () => {
+		expect(
+			applyTenantIsolation(
+				"SELECT b.* FROM (SELECT 1 AS id) s RIGHT JOIN secrets b ON s.id = b.id",
+				postgres,
+			),
+		).toBe(
+			"SELECT b.* FROM (SELECT 1 AS id) s RIGHT JOIN (SELECT * FROM secrets WHERE secrets.tenant_id = 't1') b ON s.id = b.id",
+		);
+	});
+
+	it("should filter both sides of a FULL JOIN without turning it into an inner join", () => {
+		expect(
+			applyTenantIsolation(
+				"SELECT * FROM orders FULL OUTER JOIN public.refunds AS r ON r.order_id = orders.id WHERE r.amount > 0",
+				postgres,
+			),
+		).toBe(
+			"SELECT * FROM (SELECT * FROM orders WHERE orders.tenant_id = 't1') AS orders FULL OUTER JOIN (SELECT * FROM public.refunds WHERE refunds.tenant_id = 't1') AS r ON r.order_id = orders.id WHERE r.amount > 0",
+		);
+	});
+
+	it("should filter tables inside a subquery on the preserved side of a LEFT JOIN", () => {
+		expect(
+			applyTenantIsolation(
+				"SELECT * FROM (SELECT id FROM secrets) s LEFT JOIN orders o ON o.secret_id = s.id",
+				postgres,
+			),
+		).toBe(
+			"SELECT * FROM (SELECT id FROM secrets WHERE secrets.tenant_id = 't1') s LEFT JOIN orders o ON o.tenant_id = 't1' AND (o.secret_id = s.id)",
+		);
+	});
+
+	it("should filter RIGHT JOIN ... USING through derived tables", () => {
+		expect(
+			applyTenantIsolation(
+				"SELECT * FROM orders RIGHT JOIN refunds USING (order_id)",
+				postgres,
+			),
+		).toBe(
+			"SELECT * FROM (SELECT * FROM orders WHERE orders.tenant_id = 't1') AS orders RIGHT JOIN (SELECT * FROM refunds WHERE refunds.tenant_id = 't1') AS refunds USING (order_id)",
+		);
+	});
+
+	it("should insert WHERE before GROUP BY, ORDER BY and LIMIT", () => {
+		expect(
+			applyTenantIsolation(
+				"SELECT country, count(*) FROM orders GROUP BY country ORDER BY 2 DESC LIMIT 5",
+				postgres,
+			),
+		).toBe(
+			"SELECT country, count(*) FROM orders WHERE orders.tenant_id = 't1' GROUP BY country ORDER BY 2 DESC LIMIT 5",
+		);
+	});
+
+	it("should keep OR conditions grouped", () => {
+		expect(
+			applyTenantIsolation(
+				"SELECT * FROM orders WHERE status = 'a' OR status = 'b'",
+				postgres,
+			),
+		).toBe(
+			"SELECT * FROM orders WHERE orders.tenant_id = 't1' AND (status = 'a' OR status = 'b')",
+		);
+	});
+
+	it("should rewrite CTE bodies but not references to the CTE", () => {
+		expect(
+			applyTenantIsolation(
+				"WITH recent AS (SELECT * FROM orders WHERE created_at > now() - interval '7 days') SELECT count(*) FROM recent",
+				postgres,
+			),
+		).toBe(
+			"WITH recent AS (SELECT * FROM orders WHERE orders.tenant_id = 't1' AND (created_at > now() - interval '7 days')) SELECT count(*) FROM recent",
+		);
+	});
+
+	it("should rewrite subqueries, derived tables and every UNION branch", () => {
+		expect(
+			applyTenantIsolation(
+				"SELECT * FROM (SELECT id FROM a) x WHERE x.id IN (SELECT a_id FROM b) UNION ALL SELECT id FROM c",
+				postgres,
+			),
+		).toBe(
+			"SELECT * FROM (SELECT id FROM a WHERE a.tenant_id = 't1') x WHERE x.id IN (SELECT a_id FROM b WHERE b.tenant_id = 't1') UNION ALL SELECT id FROM c WHERE c.tenant_id = 't1'",
+		);
+	});
+
+	it("should ignore keywords inside strings, comments and function calls", () => {
+		expect(
+			applyTenantIsolation(
+				"SELECT 'from x where' AS label, EXTRACT(YEAR FROM created_at) -- where\nFROM orders;",
+				postgres,
+			),
+		).toBe(
+			"SELECT 'from x where' AS label, EXTRACT(YEAR FROM created_at) -- where\nFROM orders WHERE orders.tenant_id = 't1';",
+		);
+	});
+
+	it("should handle ClickHouse FINAL, SAMPLE and SETTINGS", () => {
+		expect(
+			applyTenantIsolation(
+				"SELECT count() FROM analytics.events FINAL SAMPLE 0.1 SETTINGS max_threads = 2",
+				clickhouse,
+			),
+		).toBe(
+			"SELECT count() FROM analytics.events FINAL SAMPLE 0.1 WHERE events.tenant_id = {tenant_id:String} SETTINGS max_threads = 2",
+		);
+	});
+
+	it("should use quoted aliases as written", () => {
+		expect(
+			applyTenantIsolation('SELECT * FROM "Orders" AS "o"', postgres),
+		).toBe(`SELECT * FROM "Orders" AS "o" WHERE "o".tenant_id = 't1'`);
+	});
+
+	it("should reject statements other than SELECT", () => {
+		expect(() =>
+			applyTenantIsolation("UPDATE orders SET total = 0", postgres),
+		).toThrow("only SELECT queries");
+	});
+
+	it("should reject multiple statements", () => {
+		expect(() =>
+			applyTenantIsolation("SELECT 1 FROM orders; SELECT 2 FROM users", postgres),
+		).toThrow("multiple statements");
+	});
+
+	it("should reject table functions that read external data", () => {
+		expect(() =>
+			applyTenantIsolation(
+				"SELECT * FROM remote('host', db.orders)",
+				clickhouse,
+			),
+		).toThrow('table function "remote"');
+	});
+
+	it("should allow value-generating table functions", () => {
+		expect(
+			applyTenantIsolation(
+				"SELECT d FROM generate_series(1, 3) AS d",
+				postgres,
+			),
+		).toBe("SELECT d FROM generate_series(1, 3) AS d");
+	});
+
+	it("should reject MySQL executable comments", () => {
+		expect(() =>
+			applyTenantIsolation(
+				"SELECT * FROM orders /*! UNION SELECT * FROM secrets */",
+				{ ...postgres, dialect: "mysql" },
+			),
+		).toThrow("executable or nested comments");
+		expect(() =>
+			applyTenantIsolation(
+				"SELECT * FROM orders /*!50000 UNION SELECT * FROM secrets */",
+				{ ...postgres, dialect: "mysql" },
+			),
+		).toThrow("executable or nested comments");
+	});
+
+	it("should treat nested Postgres comments as one comment", () => {
+		expect(
+			applyTenantIsolation(
+				"SELECT * FROM orders /* outer /* inner */ UNION SELECT * FROM secrets */",
+				postgres,
+			),
+		).toBe(
+			"SELECT * FROM orders WHERE orders.tenant_id = 't1' /* outer /* inner */ UNION SELECT * FROM secrets */",
+		);
+	});
+
+	it("should reject nested comments in dialects that do not nest them", () => {
+		expect(() =>
+			applyTenantIsolation(
+				"SELECT * FROM orders /* outer /* inner */ UNION SELECT * FROM secrets */",
+				clickhouse,
+			),
+		).toThrow("executable or nested comments");
+	});
+
+	it("should read MySQL --1 as two minus signs, not a comment", () => {
+		expect(
+			applyTenantIsolation(
+				"SELECT * FROM orders WHERE 1=1 --1 UNION SELECT * FROM orders",
+				{ ...postgres, dialect: "mysql" },
+			),
+		).toBe(
+			"SELECT * FROM orders WHERE orders.tenant_id = 't1' AND (1=1 --1) UNION SELECT * FROM orders WHERE orders.tenant_id = 't1'",
+		);
+	});
+
+	it("should treat # as a line comment in MySQL and ClickHouse", () => {
+		expect(
+			applyTenantIsolation(
+				"SELECT id FROM orders # '\nUNION SELECT id FROM orders -- '",
+				{ ...postgres, dialect: "mysql" },
+			),
+		).toBe(
+			"SELECT id FROM orders WHERE orders.tenant_id = 't1' # '\nUNION SELECT id FROM orders WHERE orders.tenant_id = 't1' -- '",
+		);
+		expect(
+			applyTenantIsolation(
+				"SELECT id FROM orders # '\nUNION ALL SELECT id FROM orders",
+				clickhouse,
+			),
+		).toBe(
+			"SELECT id FROM orders WHERE orders.tenant_id = {tenant_id:String} # '\nUNION ALL SELECT id FROM orders WHERE orders.tenant_id = {tenant_id:String}",
+		);
+	});
+
+	it("should compare ClickHouse CTE names case-sensitively", () => {
+		expect(
+			applyTenantIsolation(
+				"WITH Orders AS (SELECT 1) SELECT * FROM orders",
+				clickhouse,
+			),
+		).toBe(
+			"WITH Orders AS (SELECT 1) SELECT * FROM orders WHERE orders.tenant_id = {tenant_id:String}",
+		);
+		expect(
+			applyTenantIsolation("WITH Orders AS (SELECT 1) SELECT * FROM orders", postgres),
+		).toBe("WITH Orders AS (SELECT 1) SELECT * FROM orders");
+	});
+
+	it("should reject outer joins without an ON clause", () => {
+		expect(() =>
+			applyTenantIsolation(
+				"SELECT * FROM orders LEFT JOIN refunds USING (order_id)",
+				postgres,
+			),
+		).toThrow("outer joins");
+	});
+});
+
+describe("listTableReferences", () => {
+	it("should list base tables but not CTE names or safe table functions", () => {
+		expect(
+			listTableReferences(
+				`WITH recent AS (SELECT * FROM "Orders") SELECT * FROM recent r, analytics.events e RIGHT JOIN generate_series(1, 3) d ON true WHERE r.id IN (SELECT order_id FROM refunds)`,
+				"postgres",
+			),
+		).toEqual([
+			{ schema: undefined, table: "Orders" },
+			{ schema: "analytics", table: "events" },
+			{ schema: undefined, table: "refunds" },
+		]);
+	});
+
+	it("should list data-reading table functions by name", () => {
+		expect(
+			listTableReferences("SELECT * FROM remote('host', db.orders)", "clickhouse"),
+		).toEqual([{ schema: undefined, table: "remote" }]);
+	});
+});
@@ -0,0 +1,700 @@
+import type { DatabaseDialect } from "../adapters/types";
+import {
+	findUnsafeComment,
+	isKeyword,
+	type SqlToken,
+	significantTokens,
+	tokenizeSql,
+	unquoteIdentifier,
+} from "../utils/sql-tokenizer";
+import { SqlValidationError } from "./errors";
+
+export interface TenantIsolationOptions {
+	dialect: DatabaseDialect;
+	/** Tenant column present on every base table */
+	tenantField: string;
+	/** SQL expression the tenant column is compared with (placeholder or literal) */
+	tenantValue: string;
+}
+
+/** Keywords starting a clause that ends the FROM list of a SELECT */
+const CLAUSE_KEYWORDS = new Set([
+	"FROM",
+	"PREWHERE",
+	"WHERE",
+	"GROUP",
+	"HAVING",
+	"WINDOW",
+	"QUALIFY",
+	"ORDER",
+	"LIMIT",
+	"OFFSET",
+	"FETCH",
+	"FOR",
+	"SETTINGS",
+	"FORMAT",
+]);
+
+const SET_OPERATORS = new Set(["UNION", "INTERSECT", "EXCEPT", "MINUS"]);
+
+const JOIN_MODIFIERS = new Set([
+	"NATURAL",
+	"GLOBAL",
+	"LOCAL",
+	"ANY",
+	"ALL",
+	"ASOF",
+	"SEMI",
+	"ANTI",
+	"LEFT",
+	"RIGHT",
+	"FULL",
+	"INNER",
+	"OUTER",
+	"CROSS",
+	"PASTE",
+	"ARRAY",
+]);
+
+/** Words that can never be a bare table alias */
+const NON_ALIAS_KEYWORDS = new Set([
+	...CLAUSE_KEYWORDS,
+	...SET_OPERATORS,
+	...JOIN_MODIFIERS,
+	"JOIN",
+	"ON",
+	"USING",
+	"AS",
+	"FINAL",
+	"SAMPLE",
+	"TABLESAMPLE",
+	"LATERAL",
+]);
+
+/**
+ * Table functions that only produce generated values and never read stored rows.
+ * Any other table function (remote(), file(), read_parquet(), dblink(), ...) is rejected.
+ */
+const SAFE_TABLE_FUNCTIONS = new Set([
+	"generate_series",
+	"unnest",
+	"json_each",
+	"jsonb_each",
+	"json_array_elements",
+	"jsonb_array_elements",
+	"regexp_split_to_table",
+	"numbers",
+	"range",
+]);
+
+/** Base table read by a query, with the schema (or database) when qualified */
+export interface TableReference {
+	schema?: string;
+	table: string;
+}
+
+interface TableFactor {
+	next: number;
+	/** Qualifier for the tenant predicate, undefined for CTEs, subqueries and table functions */
+	qualifier?: string;
+}
+
+/**
+ * Rewrites a SELECT statement so that every base-table reference is filtered by tenant.
+ *
+ * The statement is tokenized and walked clause by clause: CTE bodies, UNION branches,
+ * derived tables and expression subqueries are rewritten recursively. Each table gets
+ * `<alias>.<tenantField> = <tenantValue>` in the ON clause of its join, or in the WHERE
+ * clause of its SELECT when it has no ON clause. In a FROM list with RIGHT or FULL
+ * joins, where ON and WHERE would not filter the preserved side, every base table is
+ * replaced by a filtered derived table instead. Anything that cannot be rewritten
+ * safely (non-SELECT statements, multiple statements, outer joins without ON,
+ * data-reading table functions, parenthesized joins) throws.
+ */
+export function applyTenantIsolation(
+	sql: string,
+	options: TenantIsolationOptions,
+): string {
+	return new TenantIsolationRewriter(sql, options.dialect, options).rewrite();
+}
+
+/**
+ * Lists the base tables a SELECT statement reads, walking it the same way as
+ * applyTenantIsolation: CTE names are not tables, and tables in subqueries, CTE
+ * bodies and every FROM list item count. Data-reading table functions are listed
+ * by name. Statements the walker cannot follow throw, so allow-lists fail closed.
+ */
+export function listTableReferences(
+	sql: string,
+	dialect: DatabaseDialect,
+): TableReference[] {
+	const walker = new TenantIsolationRewriter(sql, dialect);
+	walker.rewrite();
+	return walker.tables;
+}
+
+class TenantIsolationRewriter {
+	readonly tables: TableReference[] = [];
+	private readonly tokens: SqlToken[];
+	private readonly closing = new Map<number, number>();
+	private readonly insertions: Array<{ offset: number; text: string }> = [];
+
+	constructor(
+		private readonly sql: string,
+		private readonly dialect: DatabaseDialect,
+		/** Omitted when only listing table references */
+		private readonly isolation?: Omit<TenantIsolationOptions, "dialect">,
+	) {
+		const tokens = tokenizeSql(sql, dialect);
+		if (findUnsafeComment(tokens, dialect)) {
+			this.reject("executable or nested comments are not allowed");
+		}
+		this.tokens = significantTokens(tokens);
+
+		const stack: number[] = [];
+		this.tokens.forEach((token, index) => {
+			if (token.type !== "punct") return;
+			if (token.value === "(") stack.push(index);
+			if (token.value === ")") {
+				const open = stack.pop();
+				if (open === undefined) this.reject("unbalanced parentheses");
+				this.closing.set(open as number, index);
+			}
+		});
+		if (stack.length > 0) this.reject("unbalanced parentheses");
+	}
+
+	rewrite(): string {
+		let end = this.tokens.findIndex(
+			(token) => token.type === "punct" && token.value === ";",
+		);
+		if (end === -1) {
+			end = this.tokens.length;
+		} else if (end < this.tokens.length - 1) {
+			this.reject("multiple statements are not allowed");
+		}
+		if (end === 0) return this.sql;
+
+		const first = this.tokens[0];
+		if (!isKeyword(first, "SELECT", "WITH") && !this.isOpenParen(0)) {
+			this.reject("only SELECT queries are supported");
+		}
+
+		this.processQuery(0, end, new Set());
+
+		let output = "";
+		let cursor = 0;
+		const ordered = this.insertions
+			.map((insertion, order) => ({ ...insertion, order }))
+			.sort((a, b) => a.offset - b.offset || a.order - b.order);
+		for (const insertion of ordered) {
+			output += this.sql.slice(cursor, insertion.offset) + insertion.text;
+			cursor = insertion.offset;
+		}
+		return output + this.sql.slice(cursor);
+	}
+
+	/**
+	 * Query expression: optional WITH, then SELECT blocks joined by set operators
+	 */
+	private processQuery(start: number, end: number, scope: Set<string>): void {
+		let i = start;
+		let queryScope = scope;
+		if (isKeyword(this.tokens[i], "WITH")) {
+			const withResult = this.processWith(i + 1, end, scope);
+			i = withResult.next;
+			queryScope = withResult.scope;
+		}
+
+		let blockStart = i;
+		for (let j = i; j < end; j++) {
+			if (this.isOpenParen(j)) {
+				j = this.closeOf(j);
+				continue;
+			}
+			const token = this.tokens[j];
+			if (token?.type === "word" && SET_OPERATORS.has(token.value.toUpperCase())) {
+				this.processBlock(blockStart, j, queryScope);
+				if (isKeyword(this.tokens[j + 1], "ALL", "DISTINCT")) j += 1;
+				blockStart = j + 1;
+			}
+		}
+		this.processBlock(blockStart, end, queryScope);
+	}
+
+	private processWith(
+		start: number,
+		end: number,
+		scope: Set<string>,
+	): { next: number; scope: Set<string> } {
+		let i = start;
+		const recursive = isKeyword(this.tokens[i], "RECURSIVE");
+		if (recursive) i += 1;
+
+		const ctes: Array<{ name: string; bodyStart: number; bodyEnd: number }> = [];
+		const expressions: Array<{ start: number; end: number }> = [];
+
+		while (i < end) {
+			const body = this.matchCteBody(i);
+			if (body) {
+				ctes.push({
+					name: this.normalizeIdentifier(this.tokens[i] as SqlToken),
+					bodyStart: body + 1,
+					bodyEnd: this.closeOf(body),
+				});
+				i = this.closeOf(body) + 1;
+			} else {
+				// ClickHouse `WITH <expression> AS <alias>`
+				let j = i;
+				while (
+					j < end &&
+					!this.isPunct(j, ",") &&
+					!isKeyword(this.tokens[j], "SELECT")
+				) {
+					if (this.isOpenParen(j)) j = this.closeOf(j);
+					j += 1;
+				}
+				expressions.push({ start: i, end: j });
+				i = j;
+			}
+
+			if (this.isPunct(i, ",")) {
+				i += 1;
+				continue;
+			}
+			break;
+		}
+
+		const fullScope = new Set(scope);
+		for (const cte of ctes) fullScope.add(cte.name);
+
+		// Non-recursive CTEs only see the CTEs declared before them, so a body
+		// reading a base table with the same name as its CTE is still isolated
+		const visible = new Set(scope);
+		for (const cte of ctes) {
+			this.processQuery(cte.bodyStart, cte.bodyEnd, recursive ? fullScope : visible);
+			visible.add(cte.name);
+		}
+		for (const expression of expressions) {
+			this.scanExpression(expression.start, expression.end, fullScope);
+		}
+
+		return { next: i, scope: fullScope };
+	}
+
+	/**
+	 * `name [(columns)] AS [NOT] [MATERIALIZED] (` — returns the index of the body paren
+	 */
+	private matchCteBody(i: number): number | undefined {
+		const token = this.tokens[i];
+		if (!token || (token.type !== "word" && token.type !== "quoted")) {
+			return undefined;
+		}
+		let j = i + 1;
+		if (this.isOpenParen(j)) j = this.closeOf(j) + 1;
+		if (!isKeyword(this.tokens[j], "AS")) return undefined;
+		j += 1;
+		if (isKeyword(this.tokens[j], "NOT")) j += 1;
+		if (isKeyword(this.tokens[j], "MATERIALIZED")) j += 1;
+		return this.isOpenParen(j) ? j : undefined;
+	}
+
+	private processBlock(start: number, end: number, scope: Set<string>): void {
+		if (start >= end) this.reject("empty query block");
+
+		if (this.isOpenParen(start)) {
+			const close = this.closeOf(start);
+			this.processQuery(start + 1, close, scope);
+			this.scanExpression(close + 1, end, scope);
+			return;
+		}
+		if (isKeyword(this.tokens[start], "SELECT")) {
+			this.processSelect(start, end, scope);
+			return;
+		}
+		if (isKeyword(this.tokens[start], "VALUES")) {
+			this.scanExpression(start + 1, end, scope);
+			return;
+		}
+		this.reject(`unsupported query block "${this.tokens[start]?.value}"`);
+	}
+
+	private processSelect(start: number, end: number, scope: Set<string>): void {
+		const clauses: Array<{ keyword: string; index: number }> = [];
+		for (let j = start + 1; j < end; j++) {
+			if (this.isOpenParen(j)) {
+				j = this.closeOf(j);
+				continue;
+			}
+			const token = this.tokens[j] as SqlToken;
+			if (token.type !== "word") continue;
+			const keyword = token.value.toUpperCase();
+			if (!CLAUSE_KEYWORDS.has(keyword)) continue;
+			// `IS [NOT] DISTINCT FROM` is an operator, not a clause
+			if (keyword === "FROM" && isKeyword(this.tokens[j - 1], "DISTINCT")) continue;
+			// ClickHouse `SAMPLE 0.1 OFFSET 0.5` belongs to the table reference
+			if (keyword === "OFFSET" && isKeyword(this.tokens[j - 2], "SAMPLE")) continue;
+			clauses.push({ keyword, index: j });
+		}
+
+		this.scanExpression(start + 1, clauses[0]?.index ?? end, scope);
+
+		let whereQualifiers: string[] = [];
+		let fromEnd: number | undefined;
+		let whereRange: { start: number; end: number } | undefined;
+
+		clauses.forEach((clause, index) => {
+			const regionEnd = clauses[index + 1]?.index ?? end;
+			let regionStart = clause.index + 1;
+			if (isKeyword(this.tokens[regionStart], "BY")) regionStart += 1;
+
+			if (clause.keyword === "FROM" && fromEnd === undefined) {
+				whereQualifiers = this.processFrom(regionStart, regionEnd, scope);
+				fromEnd = regionEnd;
+				return;
+			}
+			if (clause.keyword === "WHERE") {
+				if (regionStart >= regionEnd) this.reject("empty WHERE clause");
+				whereRange = { start: regionStart, end: regionEnd };
+			}
+			this.scanExpression(regionStart, regionEnd, scope);
+		});
+
+		if (whereQualifiers.length === 0 || fromEnd === undefined) return;
+
+		const predicates = whereQualifiers
+			.map((qualifier) => this.predicate(qualifier))
+			.join(" AND ");
+		if (whereRange) {
+			this.wrapCondition(whereRange.start, whereRange.end, predicates);
+		} else {
+			this.insertAfter(fromEnd - 1, ` WHERE ${predicates}`);
+		}
+	}
+
+	/**
+	 * Walks the FROM list and returns qualifiers whose predicate belongs in WHERE
+	 */
+	private processFrom(start: number, end: number, scope: Set<string>): string[] {
+		const whereQualifiers: string[] = [];
+		const wrapTables =
+			this.isolation !== undefined && this.hasRightOrFullJoin(start, end);
+
+		let factor = this.parseTableFactor(start, end, scope, wrapTables);
+		if (factor.qualifier) whereQualifiers.push(factor.qualifier);
+		let i = factor.next;
+
+		while (i < end) {
+			if (this.isPunct(i, ",")) {
+				factor = this.parseTableFactor(i + 1, end, scope, wrapTables);
+				if (factor.qualifier) whereQualifiers.push(factor.qualifier);
+				i = factor.next;
+				continue;
+			}
+
+			const joinEnd = this.matchJoin(i);
+			if (joinEnd === undefined) {
+				this.reject(`unexpected "${this.tokens[i]?.value}" in FROM clause`);
+			}
+			const modifiers = this.tokens
+				.slice(i, joinEnd)
+				.map((token) => token.value.toUpperCase());
+			const outer = modifiers.some((m) => m === "LEFT" || m === "RIGHT" || m === "FULL");
+
+			if (modifiers.includes("ARRAY")) {
+				// ClickHouse ARRAY JOIN unfolds columns of tables already filtered
+				const next = this.findJoinBoundary(joinEnd as number, end);
+				this.scanExpression(joinEnd as number, next, scope);
+				i = next;
+				continue;
+			}
+
+			factor = this.parseTableFactor(joinEnd as number, end, scope, wrapTables);
+			i = factor.next;
+
+			if (isKeyword(this.tokens[i], "ON")) {
+				const conditionEnd = this.findJoinBoundary(i + 1, end);
+				if (conditionEnd <= i + 1) this.reject("empty ON clause");
+				this.scanExpression(i + 1, conditionEnd, scope);
+				if (factor.qualifier) {
+					this.wrapCondition(i + 1, conditionEnd, this.predicate(factor.qualifier));
+				}
+				i = conditionEnd;
+				continue;
+			}
+
+			if (isKeyword(this.tokens[i], "USING")) {
+				i = this.isOpenParen(i + 1)
+					? this.closeOf(i + 1) + 1
+					: this.findJoinBoundary(i + 1, end);
+			}
+			if (factor.qualifier) {
+				if (outer) {
+					this.reject("outer joins without an ON clause cannot be tenant-isolated");
+				}
+				whereQualifiers.push(factor.qualifier);
+			}
+		}
+
+		return whereQualifiers;
+	}
+
+	/**
+	 * RIGHT and FULL joins keep rows the ON clause rejects, and turn a WHERE
+	 * predicate on their nullable side into an inner join
+	 */
+	private hasRightOrFullJoin(start: number, end: number): boolean {
+		for (let j = start; j < end; j++) {
+			if (this.isOpenParen(j)) {
+				j = this.closeOf(j);
+				continue;
+			}
+			const joinEnd = this.matchJoin(j);
+			if (joinEnd === undefined) continue;
+			const modifiers = this.tokens.slice(j, joinEnd);
+			if (modifiers.some((token) => isKeyword(token, "RIGHT", "FULL"))) return true;
+			j = joinEnd - 1;
+		}
+		return false;
+	}
+
+	/**
+	 * With `wrap`, a base table is replaced by `(SELECT * FROM t WHERE <predicate>) alias`
+	 * and gets no qualifier, so the filter holds whatever side of a join it is on
+	 */
+	private parseTableFactor(
+		start: number,
+		end: number,
+		scope: Set<string>,
+		wrap: boolean,
+	): TableFactor {
+		let i = start;
+		while (isKeyword(this.tokens[i], "LATERAL")) i += 1;
+		const referenceStart = i;
+		while (isKeyword(this.tokens[i], "ONLY")) i += 1;
+		if (i >= end) this.reject("missing table reference");
+
+		if (this.isOpenParen(i)) {
+			const close = this.closeOf(i);
+			const inner = this.tokens[i + 1];
+			if (isKeyword(inner, "SELECT", "WITH") || this.isOpenParen(i + 1)) {
+				this.processQuery(i + 1, close, scope);
+			} else if (isKeyword(inner, "VALUES")) {
+				this.scanExpression(i + 2, close, scope);
+			} else {
+				this.reject("parenthesized joins are not supported");
+			}
+			return { next: this.skipAlias(close + 1, end).next };
+		}
+
+		const nameParts: SqlToken[] = [];
+		while (i < end) {
+			const token = this.tokens[i] as SqlToken;
+			if (token.type !== "word" && token.type !== "quoted") {
+				this.reject(`unexpected "${token.value}" in FROM clause`);
+			}
+			nameParts.push(token);
+			i += 1;
+			if (!this.isPunct(i, ".")) break;
+			i += 1;
+		}
+		const lastPart = nameParts[nameParts.length - 1] as SqlToken;
+
+		if (this.isOpenParen(i)) {
+			const functionName = unquoteIdentifier(lastPart).toLowerCase();
+			if (!SAFE_TABLE_FUNCTIONS.has(functionName)) {
+				if (this.isolation) {
+					this.reject(`table function "${functionName}" cannot be tenant-isolated`);
+				}
+				this.tables.push(tableReference(nameParts));
+			}
+			this.scanExpression(i + 1, this.closeOf(i), scope);
+			return { next: this.skipAlias(this.closeOf(i) + 1, end).next };
+		}
+
+		const isCte =
+			nameParts.length === 1 && scope.has(this.normalizeIdentifier(lastPart));
+
+		i = this.skipTableModifiers(i, end);
+		const referenceEnd = i;
+		const aliasResult = this.skipAlias(i, end);
+		i = this.skipTableModifiers(aliasResult.next, end);
+
+		if (isCte) return { next: i };
+		this.tables.push(tableReference(nameParts));
+		if (!this.isolation) return { next: i };
+		if (wrap) {
+			if (i !== aliasResult.next) {
+				this.reject("outer joins with table modifiers after the alias are not supported");
+			}
+			this.insertBefore(referenceStart, "(SELECT * FROM ");
+			const alias = aliasResult.alias ? "" : ` AS ${lastPart.value}`;
+			this.insertAfter(
+				referenceEnd - 1,
+				` WHERE ${this.predicate(lastPart.value)})${alias}`,
+			);
+			return { next: i };
+		}
+		return { next: i, qualifier: aliasResult.alias ?? lastPart.value };
+	}
+
+	/**
+	 * `[AS] alias [(columns)]` — returns the alias text as written
+	 */
+	private skipAlias(start: number, end: number): { next: number; alias?: string } {
+		let i = start;
+		const hasAs = isKeyword(this.tokens[i], "AS");
+		if (hasAs) i += 1;
+		const token = this.tokens[i];
+		if (
+			i < end &&
+			token &&
+			(token.type === "quoted" ||
+				(token.type === "word" && !NON_ALIAS_KEYWORDS.has(token.value.toUpperCase())))
+		) {
+			i += 1;
+			if (this.isOpenParen(i)) i = this.closeOf(i) + 1;
+			return { next: i, alias: token.value };
+		}
+		if (hasAs) this.reject("missing alias after AS");
+		return { next: i };
+	}
+
+	/**
+	 * ClickHouse FINAL / SAMPLE and Postgres TABLESAMPLE modifiers
+	 */
+	private skipTableModifiers(start: number, end: number): number {
+		let i = start;
+		while (i < end) {
+			if (isKeyword(this.tokens[i], "FINAL")) {
+				i += 1;
+			} else if (isKeyword(this.tokens[i], "SAMPLE")) {
+				i = this.skipRatio(i + 1, end);
+				if (isKeyword(this.tokens[i], "OFFSET")) {
+					i = this.skipRatio(i + 1, end);
+				}
+			} else if (isKeyword(this.tokens[i], "TABLESAMPLE")) {
+				i += 2;
+				if (this.isOpenParen(i)) i = this.closeOf(i) + 1;
+				if (isKeyword(this.tokens[i], "REPEATABLE") && this.isOpenParen(i + 1)) {
+					i = this.closeOf(i + 1) + 1;
+				}
+			} else {
+				break;
+			}
+		}
+		return i;
+	}
+
+	/**
+	 * ClickHouse sample ratio such as `0.1`, `1/10` or `10000000`
+	 */
+	private skipRatio(start: number, end: number): number {
+		let i = start;
+		while (
+			i < end &&
+			(this.tokens[i]?.type === "number" || this.tokens[i]?.value === "/")
+		) {
+			i += 1;
+		}
+		return i;
+	}
+
+	/**
+	 * Returns the index after JOIN when a join clause starts at i
+	 */
+	private matchJoin(i: number): number | undefined {
+		let j = i;
+		while (
+			this.tokens[j]?.type === "word" &&
+			JOIN_MODIFIERS.has((this.tokens[j] as SqlToken).value.toUpperCase()) &&
+			!this.isOpenParen(j + 1)
+		) {
+			j += 1;
+		}
+		return isKeyword(this.tokens[j], "JOIN") ? j + 1 : undefined;
+	}
+
+	private findJoinBoundary(start: number, end: number): number {
+		for (let j = start; j < end; j++) {
+			if (this.isOpenParen(j)) {
+				j = this.closeOf(j);
+				continue;
+			}
+			if (this.isPunct(j, ",") || this.matchJoin(j) !== undefined) return j;
+		}
+		return end;
+	}
+
+	/**
+	 * Recurse into subqueries nested anywhere inside an expression
+	 */
+	private scanExpression(start: number, end: number, scope: Set<string>): void {
+		for (let j = start; j < end; j++) {
+			if (!this.isOpenParen(j)) continue;
+			const close = this.closeOf(j);
+			if (isKeyword(this.tokens[j + 1], "SELECT", "WITH")) {
+				this.processQuery(j + 1, close, scope);
+			} else {
+				this.scanExpression(j + 1, close, scope);
+			}
+			j = close;
+		}
+	}
+
+	private wrapCondition(start: number, end: number, predicates: string): void {
+		this.insertBefore(start, `${predicates} AND (`);
+		this.insertAfter(end - 1, ")");
+	}
+
+	private predicate(qualifier: string): string {
+		const { tenantField, tenantValue } =
+			this.isolation ?? this.reject("no tenant field to filter on");
+		return `${qualifier}.${tenantField} = ${tenantValue}`;
+	}
+
+	private insertBefore(index: number, text: string): void {
+		const token = this.tokens[index] as SqlToken;
+		this.insertions.push({ offset: token.start, text });
+	}
+
+	private insertAfter(index: number, text: string): void {
+		const token = this.tokens[index] as SqlToken;
+		this.insertions.push({ offset: token.end, text });
+	}
+
+	private isOpenParen(index: number): boolean {
+		return this.isPunct(index, "(");
+	}
+
+	private isPunct(index: number, value: string): boolean {
+		const token = this.tokens[index];
+		return token?.type === "punct" && token.value === value;
+	}
+
+	private closeOf(index: number): number {
+		return this.closing.get(index) as number;
+	}
+
+	/**
+	 * CTE name as the database resolves it: unquoted names fold to lower case,
+	 * except in ClickHouse where identifiers are case-sensitive
+	 */
+	private normalizeIdentifier(token: SqlToken): string {
+		return token.type === "quoted" || this.dialect === "clickhouse"
+			? unquoteIdentifier(token)
+			: token.value.toLowerCase();
+	}
+
+	private reject(reason: string): never {
+		const action = this.isolation
+			? "apply tenant isolation"
+			: "list the tables of the query";
+		throw new SqlValidationError(`Cannot ${action}: ${reason}`, this.sql);
+	}
+}
+
+function tableReference(nameParts: SqlToken[]): TableReference {
+	const [table, schema] = nameParts.map(unquoteIdentifier).reverse();
+	return { schema, table: table as string };
+}
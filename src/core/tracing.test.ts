@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { recordingTracer } from "../test-utils";
+import { noopTracer, traceparent, withSpan } from "./tracing";
+
+describe("withSpan", () => {
+	it("should pass defined attributes and end the span", async () => {
+		const { tracer, spans } = recordingTracer();
+
+		const result = await withSpan(
+			tracer,
+			"querypanel.sql.execute",
+			{ "db.system": "postgres", "db.namespace": undefined },
+			async () => 42,
+		);
+
+		expect(result).toBe(42);
+		expect(spans[0]?.name).toBe("querypanel.sql.execute");
+		expect(spans[0]?.options).toEqual({
+			attributes: { "db.system": "postgres" },
+		});
+		expect(spans[0]?.span.end).toHaveBeenCalledTimes(1);
+	});
+
+	it("should record errors on the span and rethrow them", async () => {
+		const { tracer, spans } = recordingTracer();
+		const error = new Error("boom");
+
+		await expect(
+			withSpan(tracer, "failing", {}, async () => {
+				throw error;
+			}),
+		).rejects.toBe(error);
+
+		const span = spans[0]?.span;
+		expect(span?.recordException).toHaveBeenCalledWith(error);
+		expect(span?.setStatus).toHaveBeenCalledWith({ code: 2, message: "boom" });
+		expect(span?.end).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("traceparent", () => {
+	it("should format the W3C header for recording spans", async () => {
+		const { tracer } = recordingTracer();
+
+		const header = await withSpan(tracer, "request", {}, async (span) =>
+			traceparent(span),
+		);
+
+		expect(header).toBe(
+			"00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+		);
+	});
+
+	it("should be omitted for the no-op tracer", async () => {
+		const header = await withSpan(noopTracer, "request", {}, async (span) =>
+			traceparent(span),
+		);
+
+		expect(header).toBeUndefined();
+	});
+});
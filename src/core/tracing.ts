@@ -0,0 +1,108 @@
+/** Span attribute values, as accepted by OpenTelemetry */
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * Subset of the OpenTelemetry `Span` the SDK reports into.
+ * Spans from `@opentelemetry/api` satisfy it without an adapter.
+ */
+export interface Span {
+	setAttribute(key: string, value: SpanAttributeValue): unknown;
+	recordException(exception: Error | string): void;
+	setStatus(status: { code: number; message?: string }): unknown;
+	spanContext(): { traceId: string; spanId: string; traceFlags: number };
+	end(): void;
+}
+
+/**
+ * Subset of the OpenTelemetry `Tracer`, e.g. `trace.getTracer("querypanel-sdk")`.
+ * startActiveSpan makes the span current, so database and HTTP spans nest
+ * under the route span when a context manager is registered.
+ */
+export interface Tracer {
+	startActiveSpan<F extends (span: Span) => unknown>(
+		name: string,
+		options: { kind?: number; attributes?: SpanAttributes },
+		fn: F,
+	): ReturnType<F>;
+}
+
+/** OpenTelemetry SpanKind.CLIENT */
+export const SPAN_KIND_CLIENT = 2;
+/** OpenTelemetry SpanStatusCode.ERROR */
+export const SPAN_STATUS_ERROR = 2;
+
+const INVALID_TRACE_ID = "00000000000000000000000000000000";
+
+const noopSpan: Span = {
+	setAttribute: () => noopSpan,
+	recordException() {},
+	setStatus: () => noopSpan,
+	spanContext: () => ({
+		traceId: INVALID_TRACE_ID,
+		spanId: "0000000000000000",
+		traceFlags: 0,
+	}),
+	end() {},
+};
+
+/** Default tracer: records nothing and adds no traceparent header */
+export const noopTracer: Tracer = {
+	startActiveSpan: (_name, _options, fn) =>
+		fn(noopSpan) as ReturnType<typeof fn>,
+};
+
+/**
+ * Runs fn inside an active span, recording a thrown error on the span and
+ * ending it when fn settles
+ */
+export async function withSpan<T>(
+	tracer: Tracer,
+	name: string,
+	attributes: SpanAttributes,
+	fn: (span: Span) => Promise<T>,
+	kind?: number,
+): Promise<T> {
+	return await tracer.startActiveSpan(
+		name,
+		{ attributes: definedAttributes(attributes), ...(kind ? { kind } : {}) },
+		async (span: Span) => {
+			try {
+				return await fn(span);
+			} catch (error) {
+				span.recordException(
+					error instanceof Error ? error : String(error),
+				);
+				span.setStatus({
+					code: SPAN_STATUS_ERROR,
+					message: error instanceof Error ? error.message : String(error),
+				});
+				throw error;
+			} finally {
+				span.end();
+			}
+		},
+	);
+}
+
+/**
+ * W3C `traceparent` header for a span, or undefined for non-recording spans
+ */
+export function traceparent(span: Span): string | undefined {
+	const { traceId, spanId, traceFlags } = span.spanContext();
+	if (!traceId || traceId === INVALID_TRACE_ID) {
+		return undefined;
+	}
+	const flags = (traceFlags & 0xff).toString(16).padStart(2, "0");
+	return `00-${traceId}-${spanId}-${flags}`;
+}
+
+function definedAttributes(
+	attributes: SpanAttributes,
+): Record<string, SpanAttributeValue> {
+	const defined: Record<string, SpanAttributeValue> = {};
+	for (const [key, value] of Object.entries(attributes)) {
+		if (value !== undefined) defined[key] = value;
+	}
+	return defined;
+}
@@ -3,16 +3,65 @@ import {
 	type ClickHouseAdapterOptions,
 	type ClickHouseClientFn,
 } from "./adapters/clickhouse";
+import {
+	DuckDbAdapter,
+	type DuckDbAdapterOptions,
+	type DuckDbClientFn,
+} from "./adapters/duckdb";
+import {
+	MySqlAdapter,
+	type MySqlAdapterOptions,
+	type MySqlClientFn,
+} from "./adapters/mysql";
 import {
 	PostgresAdapter,
 	type PostgresAdapterOptions,
 	type PostgresClientFn,
+	type PostgresCursorFn,
+	type PostgresCursorOptions,
+	type PostgresQueryOptions,
 } from "./adapters/postgres";
-import type { DatabaseAdapter, DatabaseDialect } from "./adapters/types";
-import { ApiClient } from "./core/client";
+import {
+	SqliteAdapter,
+	type SqliteAdapterOptions,
+	type SqliteClientFn,
+} from "./adapters/sqlite";
+import type {
+	DatabaseAdapter,
+	DatabaseDialect,
+	ExecuteOptions,
+	RowBatchStream,
+	StreamOptions,
+} from "./adapters/types";
+import {
+	ApiClient,
+	type JwtSigner,
+	type RetryPolicy,
+	type TokenProvider,
+} from "./core/client";
+import type {
+	JwtAlgorithm,
+	PrivateKeyInput,
+	SigningKey,
+} from "./core/private-key";
+import type { LogFields, Logger } from "./core/logger";
+import type { ApiNext, ApiRequest, Middleware } from "./core/middleware";
 import { type DatabaseMetadata, QueryEngine } from "./core/query-engine";
+import {
+	type CachedResult,
+	type CacheScope,
+	DEFAULT_RESULT_CACHE_TTL_MS,
+	MemoryResultCache,
+	type ResultCache,
+	type ResultCacheOptions,
+} from "./core/result-cache";
+import type { Span, SpanAttributes, Tracer } from "./core/tracing";
 import * as activeChartsRoute from "./routes/active-charts";
 import * as chartsRoute from "./routes/charts";
+import {
+	Conversation,
+	type ConversationOptions,
+} from "./routes/conversation";
 import * as ingestRoute from "./routes/ingest";
 import * as modifyRoute from "./routes/modify";
 import * as queryRoute from "./routes/query";
@@ -20,20 +69,67 @@ import * as vizspecRoute from "./routes/vizspec";
 import type { SchemaIntrospection } from "./schema/types";
 
 // Re-export all public types
-export { ClickHouseAdapter, PostgresAdapter };
+export {
+	ClickHouseAdapter,
+	DuckDbAdapter,
+	MemoryResultCache,
+	MySqlAdapter,
+	PostgresAdapter,
+	SqliteAdapter,
+};
 
 export type {
+	ApiNext,
+	ApiRequest,
+	CachedResult,
+	CacheScope,
 	ClickHouseAdapterOptions,
 	ClickHouseClientFn,
 	DatabaseAdapter,
 	DatabaseDialect,
+	DuckDbAdapterOptions,
+	ExecuteOptions,
+	DuckDbClientFn,
+	JwtAlgorithm,
+	JwtSigner,
+	LogFields,
+	Logger,
+	Middleware,
+	MySqlAdapterOptions,
+	MySqlClientFn,
 	PostgresAdapterOptions,
 	PostgresClientFn,
+	PostgresCursorFn,
+	PostgresCursorOptions,
+	PostgresQueryOptions,
+	PrivateKeyInput,
+	ResultCache,
+	ResultCacheOptions,
+	RetryPolicy,
+	RowBatchStream,
 	SchemaIntrospection,
+	SigningKey,
+	Span,
+	SpanAttributes,
+	SqliteAdapterOptions,
+	SqliteClientFn,
+	StreamOptions,
+	TokenProvider,
+	Tracer,
 };
 
 // Re-export from query-engine
 export type { ParamRecord, ParamValue } from "./core/query-engine";
+export {
+	DatabaseNotAttachedError,
+	QueryPanelApiError,
+	QueryPanelError,
+	RequestTimeoutError,
+	SqlExecutionError,
+	SqlValidationError,
+	TenantRequiredError,
+} from "./core/errors";
+export { ReadOnlyViolationError } from "./core/statement-guard";
 export type {
 	ActiveChartCreateInput,
 	ActiveChartListOptions,
@@ -42,8 +138,11 @@ export type {
 } from "./routes/active-charts";
 
 export type {
+	ChartCacheTtl,
 	ChartCreateInput,
+	ChartGetOptions,
 	ChartListOptions,
+	ChartStreamOptions,
 	ChartUpdateInput,
 	PaginatedResponse,
 	PaginationInfo,
@@ -53,8 +152,33 @@ export type {
 // Re-export route types
 export type {
 	IngestResponse,
+	SchemaDiffOptions,
+	SchemaDiffReport,
+	SchemaIngestRequest,
 	SchemaSyncOptions,
+	SchemaSyncPreview,
 } from "./routes/ingest";
+export {
+	applySchemaAnnotations,
+	loadSchemaAnnotations,
+	parseSchemaAnnotations,
+} from "./schema/annotations";
+export type {
+	ColumnAnnotation,
+	LoadSchemaAnnotationsOptions,
+	SchemaAnnotations,
+	TableAnnotation,
+} from "./schema/annotations";
+export { diffSchemas, hashSchema } from "./schema/diff";
+export type {
+	SchemaCommentChange,
+	SchemaDiff,
+	SchemaRename,
+	SchemaTypeChange,
+	TableDiff,
+} from "./schema/diff";
+export type { SampleValuesOptions } from "./schema/samples";
+export type { MetricDefinition } from "./schema/types";
 export type {
 	AxisFieldInput,
 	ChartModifyInput,
@@ -68,9 +192,16 @@ export type {
 export type {
 	AskOptions,
 	AskResponse,
+	AskStreamEvent,
 	ChartEnvelope,
 	ContextDocument,
+	ConversationTurn,
 } from "./routes/query";
+export { Conversation } from "./routes/conversation";
+export type {
+	ConversationAskOptions,
+	ConversationOptions,
+} from "./routes/conversation";
 // Re-export anonymizeResults utility
 export { anonymizeResults } from "./routes/query";
 export type {
@@ -109,16 +240,101 @@ export class QueryPanelSdkAPI {
 
 	constructor(
 		baseUrl: string,
-		privateKey: string,
+		privateKey: PrivateKeyInput | undefined,
 		organizationId: string,
 		options?: {
 			defaultTenantId?: string;
 			additionalHeaders?: Record<string, string>;
 			fetch?: typeof fetch;
+			retry?: RetryPolicy | false;
+			timeoutMs?: number;
+			passphrase?: string;
+			keyId?: string;
+			algorithm?: JwtAlgorithm;
+			tokenTtlSeconds?: number;
+			signer?: JwtSigner;
+			tokenProvider?: TokenProvider;
+			logger?: Logger;
+			tracer?: Tracer;
+			middleware?: Middleware[];
+			/** Cache query results of charts and ask(); `true` uses the in-memory defaults */
+			resultCache?: ResultCacheOptions | boolean;
 		},
 	) {
 		this.client = new ApiClient(baseUrl, privateKey, organizationId, options);
-		this.queryEngine = new QueryEngine();
+		const cacheOptions =
+			options?.resultCache === true ? {} : options?.resultCache || undefined;
+		this.queryEngine = new QueryEngine(
+			this.client.getLogger(),
+			this.client.getTracer(),
+			cacheOptions && {
+				store:
+					cacheOptions.store ?? new MemoryResultCache(cacheOptions.maxEntries),
+				ttlMs: cacheOptions.ttlMs ?? DEFAULT_RESULT_CACHE_TTL_MS,
+			},
+		);
+	}
+
+	// Key rotation
+
+	/**
+	 * Switches token signing to a new private key without downtime.
+	 *
+	 * Register the new public key (and its `kid`) with QueryPanel before rotating.
+	 * Tokens already signed with the old key stay valid until they expire.
+	 * Throws when the SDK was created with a `signer` or `tokenProvider`.
+	 *
+	 * @example
+	 * ```typescript
+	 * qp.rotateSigningKey({
+	 *   privateKey: process.env.NEXT_PRIVATE_KEY!,
+	 *   keyId: "2026-10",
+	 *   algorithm: "ES256",
+	 * });
+	 * ```
+	 */
+	rotateSigningKey(key: SigningKey): void {
+		this.client.rotateSigningKey(key);
+	}
+
+	// Middleware
+
+	/**
+	 * Adds middleware around every API request. Middleware runs in the order
+	 * it was added, once per call (retries happen inside it).
+	 *
+	 * @example
+	 * ```typescript
+	 * qp.use(async (request, next) => {
+	 *   request.headers["x-correlation-id"] = crypto.randomUUID();
+	 *   const startedAt = Date.now();
+	 *   try {
+	 *     return await next(request);
+	 *   } finally {
+	 *     metrics.timing(`querypanel ${request.method} ${request.path}`, Date.now() - startedAt);
+	 *   }
+	 * });
+	 * ```
+	 */
+	use(middleware: Middleware): this {
+		this.client.use(middleware);
+		return this;
+	}
+
+	// Result cache
+
+	/**
+	 * Drops cached chart and ask() results, e.g. after the underlying data
+	 * changed. Without a scope the whole cache is cleared.
+	 *
+	 * @example
+	 * ```typescript
+	 * // After an import into the analytics database for one tenant
+	 * await qp.invalidateChartCache({ database: "analytics", tenantId: "tenant_123" });
+	 * ```
+	 */
+	async invalidateChartCache(scope?: CacheScope): Promise<void> {
+		await this.queryEngine.invalidateCache(scope);
 	}
 
 	// Database attachment methods
@@ -132,6 +348,10 @@ export class QueryPanelSdkAPI {
 			tenantFieldName?: string;
 			tenantFieldType?: string;
 			enforceTenantIsolation?: boolean;
+			enforceReadOnly?: boolean;
+			maxRows?: number;
+			timeoutMs?: number;
+			maxConcurrency?: number;
 		},
 	): void {
 		const adapter = new ClickHouseAdapter(clientFn, options);
@@ -146,6 +366,10 @@ export class QueryPanelSdkAPI {
 			enforceTenantIsolation: options?.tenantFieldName
 				? (options?.enforceTenantIsolation ?? true)
 				: undefined,
+			enforceReadOnly: options?.enforceReadOnly,
+			maxRows: options?.maxRows,
+			timeoutMs: options?.timeoutMs,
+			maxConcurrency: options?.maxConcurrency,
 		};
 
 		this.queryEngine.attachDatabase(name, adapter, metadata);
@@ -160,6 +384,10 @@ export class QueryPanelSdkAPI {
 			tenantFieldName?: string;
 			tenantFieldType?: string;
 			enforceTenantIsolation?: boolean;
+			enforceReadOnly?: boolean;
+			maxRows?: number;
+			timeoutMs?: number;
+			maxConcurrency?: number;
 		},
 	): void {
 		const adapter = new PostgresAdapter(clientFn, options);
@@ -174,6 +402,118 @@ export class QueryPanelSdkAPI {
 			enforceTenantIsolation: options?.tenantFieldName
 				? (options?.enforceTenantIsolation ?? true)
 				: undefined,
+			enforceReadOnly: options?.enforceReadOnly,
+			maxRows: options?.maxRows,
+			timeoutMs: options?.timeoutMs,
+			maxConcurrency: options?.maxConcurrency,
+		};
+
+		this.queryEngine.attachDatabase(name, adapter, metadata);
+	}
+
+	attachMysql(
+		name: string,
+		clientFn: MySqlClientFn,
+		options?: MySqlAdapterOptions & {
+			description?: string;
+			tags?: string[];
+			tenantFieldName?: string;
+			tenantFieldType?: string;
+			enforceTenantIsolation?: boolean;
+			enforceReadOnly?: boolean;
+			maxRows?: number;
+			timeoutMs?: number;
+			maxConcurrency?: number;
+		},
+	): void {
+		const adapter = new MySqlAdapter(clientFn, options);
+
+		const metadata: DatabaseMetadata = {
+			name,
+			dialect: "mysql",
+			description: options?.description,
+			tags: options?.tags,
+			tenantFieldName: options?.tenantFieldName,
+			tenantFieldType: options?.tenantFieldType ?? "String",
+			enforceTenantIsolation: options?.tenantFieldName
+				? (options?.enforceTenantIsolation ?? true)
+				: undefined,
+			enforceReadOnly: options?.enforceReadOnly,
+			maxRows: options?.maxRows,
+			timeoutMs: options?.timeoutMs,
+			maxConcurrency: options?.maxConcurrency,
+		};
+
+		this.queryEngine.attachDatabase(name, adapter, metadata);
+	}
+
+	attachSqlite(
+		name: string,
+		clientFn: SqliteClientFn,
+		options?: SqliteAdapterOptions & {
+			description?: string;
+			tags?: string[];
+			tenantFieldName?: string;
+			tenantFieldType?: string;
+			enforceTenantIsolation?: boolean;
+			enforceReadOnly?: boolean;
+			maxRows?: number;
+			timeoutMs?: number;
+			maxConcurrency?: number;
+		},
+	): void {
+		const adapter = new SqliteAdapter(clientFn, options);
+
+		const metadata: DatabaseMetadata = {
+			name,
+			dialect: "sqlite",
+			description: options?.description,
+			tags: options?.tags,
+			tenantFieldName: options?.tenantFieldName,
+			tenantFieldType: options?.tenantFieldType ?? "String",
+			enforceTenantIsolation: options?.tenantFieldName
+				? (options?.enforceTenantIsolation ?? true)
+				: undefined,
+			enforceReadOnly: options?.enforceReadOnly,
+			maxRows: options?.maxRows,
+			timeoutMs: options?.timeoutMs,
+			maxConcurrency: options?.maxConcurrency,
+		};
+
+		this.queryEngine.attachDatabase(name, adapter, metadata);
+	}
+
+	attachDuckDb(
+		name: string,
+		clientFn: DuckDbClientFn,
+		options?: DuckDbAdapterOptions & {
+			description?: string;
+			tags?: string[];
+			tenantFieldName?: string;
+			tenantFieldType?: string;
+			enforceTenantIsolation?: boolean;
+			enforceReadOnly?: boolean;
+			maxRows?: number;
+			timeoutMs?: number;
+			maxConcurrency?: number;
+		},
+	): void {
+		const adapter = new DuckDbAdapter(clientFn, options);
+
+		const metadata: DatabaseMetadata = {
+			name,
+			dialect: "duckdb",
+			description: options?.description,
+			tags: options?.tags,
+			tenantFieldName: options?.tenantFieldName,
+			tenantFieldType: options?.tenantFieldType ?? "String",
+			enforceTenantIsolation: options?.tenantFieldName
+				? (options?.enforceTenantIsolation ?? true)
+				: undefined,
+			enforceReadOnly: options?.enforceReadOnly,
+			maxRows: options?.maxRows,
+			timeoutMs: options?.timeoutMs,
+			maxConcurrency: options?.maxConcurrency,
 		};
 
 		this.queryEngine.attachDatabase(name, adapter, metadata);
@@ -219,13 +559,29 @@ export class QueryPanelSdkAPI {
 	 *   tenantId: "tenant_123",
 	 *   forceReindex: true,
 	 * });
+	 *
+	 * // Preview the payload and diff without uploading
+	 * const { diff, payload } = await qp.syncSchema("analytics", {
+	 *   tenantId: "tenant_123",
+	 *   dryRun: true,
+	 * });
 	 * ```
 	 */
+	syncSchema(
+		databaseName: string,
+		options: ingestRoute.SchemaSyncOptions & { dryRun: true },
+		signal?: AbortSignal,
+	): Promise<ingestRoute.SchemaSyncPreview>;
+	syncSchema(
+		databaseName: string,
+		options: ingestRoute.SchemaSyncOptions,
+		signal?: AbortSignal,
+	): Promise<ingestRoute.IngestResponse>;
 	async syncSchema(
 		databaseName: string,
 		options: ingestRoute.SchemaSyncOptions,
 		signal?: AbortSignal,
-	): Promise<ingestRoute.IngestResponse> {
+	): Promise<ingestRoute.IngestResponse | ingestRoute.SchemaSyncPreview> {
 		return await ingestRoute.syncSchema(
 			this.client,
 			this.queryEngine,
@@ -235,6 +591,39 @@ export class QueryPanelSdkAPI {
 		);
 	}
 
+	/**
+	 * Introspects a database and reports what changed since `previous`,
+	 * without contacting QueryPanel. The returned `schema` can be stored and
+	 * passed as `previous` next time; `hash` is stable across runs.
+	 *
+	 * @param databaseName - Name of the attached database
+	 * @param previous - Baseline schema; when omitted every table is reported as added
+	 * @param options - Tables to introspect and annotations to apply first
+	 *
+	 * @example
+	 * ```typescript
+	 * const diff = await qp.diffSchema("analytics", lastSchema);
+	 * if (diff.changed) {
+	 *   console.log(diff.addedTables, diff.changedTables);
+	 *   await qp.syncSchema("analytics", { tenantId: "tenant_123" });
+	 * }
+	 * lastSchema = diff.schema;
+	 * ```
+	 */
+	async diffSchema(
+		databaseName: string,
+		previous?: SchemaIntrospection,
+		options?: ingestRoute.SchemaDiffOptions,
+	): Promise<ingestRoute.SchemaDiffReport> {
+		return await ingestRoute.diffSchema(
+			this.client,
+			this.queryEngine,
+			databaseName,
+			previous,
+			options,
+		);
+	}
+
 	// Natural language query
 
 	/**
@@ -281,6 +670,64 @@ export class QueryPanelSdkAPI {
 		);
 	}
 
+	/**
+	 * Streaming variant of ask() that yields progress events as each step completes.
+	 *
+	 * Events arrive in order: `sql_generated`, then either `rows_ready` and
+	 * `chart_ready` (or `chart_failed`, which keeps the rows), or
+	 * `validation_failed` (followed by `retrying` when `maxRetry` allows another
+	 * attempt). The final `done` event carries the same response ask() resolves
+	 * with. Errors are thrown from the iterator.
+	 *
+	 * @param question - Natural language question
+	 * @param options - Same options as ask()
+	 * @param signal - Optional AbortSignal for cancellation
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const event of qp.askStream("Revenue by country", { tenantId })) {
+	 *   if (event.type === "sql_generated") showSql(event.sql);
+	 *   if (event.type === "rows_ready") showTable(event.rows);
+	 *   if (event.type === "chart_ready") showChart(event.chart);
+	 * }
+	 * ```
+	 */
+	askStream(
+		question: string,
+		options: queryRoute.AskOptions,
+		signal?: AbortSignal,
+	): AsyncGenerator<queryRoute.AskStreamEvent, void, undefined> {
+		return queryRoute.askStream(
+			this.client,
+			this.queryEngine,
+			question,
+			options,
+			signal,
+		);
+	}
+
+	/**
+	 * Starts a conversation for follow-up questions.
+	 *
+	 * Each question is sent with the previous questions, SQL and chart specs
+	 * (never result rows) under one session, so follow-ups like "now only for
+	 * Germany" don't need to restate the original question.
+	 *
+	 * @param options - Options applied to every question (tenantId, database, maxRetry, ...)
+	 *
+	 * @example
+	 * ```typescript
+	 * const conversation = qp.startConversation({ tenantId: "tenant_123", database: "analytics" });
+	 * await conversation.ask("Revenue by country last quarter");
+	 * const followUp = await conversation.ask("Now only for Germany, by month");
+	 * ```
+	 */
+	startConversation(
+		options?: ConversationOptions,
+	): Conversation {
+		return new Conversation(this.client, this.queryEngine, options);
+	}
+
 	// VizSpec generation
 
 	/**
@@ -467,7 +914,7 @@ export class QueryPanelSdkAPI {
 	 * The chart's SQL is automatically executed and data is included in the response.
 	 *
 	 * @param id - Chart ID
-	 * @param options - Tenant, user, and scope options
+	 * @param options - Tenant, user, scope and cache TTL options
 	 * @param signal - Optional AbortSignal for cancellation
 	 * @returns Chart with live data populated
 	 *
@@ -481,7 +928,7 @@ export class QueryPanelSdkAPI {
 	 */
 	async getChart(
 		id: string,
-		options?: { tenantId?: string; userId?: string; scopes?: string[] },
+		options?: chartsRoute.ChartGetOptions,
 		signal?: AbortSignal,
 	): Promise<chartsRoute.SdkChart> {
 		return await chartsRoute.getChart(
@@ -493,6 +940,39 @@ export class QueryPanelSdkAPI {
 		);
 	}
 
+	/**
+	 * Streams a saved chart's rows in batches without buffering the whole result.
+	 *
+	 * Uses the adapter's stream() (ClickHouse JSONEachRow, Postgres cursorFn) and
+	 * falls back to a single batch for adapters without streaming support.
+	 *
+	 * @param chartId - Chart ID
+	 * @param options - Tenant, user, scope options and a rows-per-batch hint
+	 * @param signal - Optional AbortSignal; aborting stops the stream between batches
+	 * @returns Async iterable of row batches
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const rows of qp.streamChartData("chart_123", { tenantId: "tenant_123" })) {
+	 *   for (const row of rows) res.write(`${JSON.stringify(row)}\n`);
+	 * }
+	 * res.end();
+	 * ```
+	 */
+	streamChartData(
+		chartId: string,
+		options?: chartsRoute.ChartStreamOptions,
+		signal?: AbortSignal,
+	): RowBatchStream {
+		return chartsRoute.streamChartData(
+			this.client,
+			this.queryEngine,
+			chartId,
+			options,
+			signal,
+		);
+	}
+
 	/**
 	 * Updates an existing chart's metadata or configuration.
 	 *
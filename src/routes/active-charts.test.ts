@@ -1,4 +1,6 @@
 import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+import { silentLogger } from "../core/logger";
+import { noopTracer } from "../core/tracing";
 import {
 	createActiveChart,
 	deleteActiveChart,
@@ -15,6 +17,8 @@ describe("routes/active-charts", () => {
 		put: Mock;
 		delete: Mock;
 		getDefaultTenantId: Mock;
+		getLogger: Mock;
+		getTracer: Mock;
 	};
 	let mockQueryEngine: {
 		execute: Mock;
@@ -29,6 +33,8 @@ describe("routes/active-charts", () => {
 			put: vi.fn(),
 			delete: vi.fn(),
 			getDefaultTenantId: vi.fn(() => "default-tenant"),
+			getLogger: vi.fn(() => silentLogger),
+			getTracer: vi.fn(() => noopTracer),
 		};
 
 		mockQueryEngine = {
@@ -1,4 +1,5 @@
 import type { ApiClient } from "../core/client";
+import { TenantRequiredError } from "../core/errors";
 import type { QueryEngine } from "../core/query-engine";
 import * as charts from "./charts";
 
@@ -178,9 +179,7 @@ export async function deleteActiveChart(
 function resolveTenantId(client: ApiClient, tenantId?: string): string {
 	const resolved = tenantId ?? client.getDefaultTenantId();
 	if (!resolved) {
-		throw new Error(
-			"tenantId is required. Provide it per request or via defaultTenantId option.",
-		);
+		throw new TenantRequiredError();
 	}
 	return resolved;
 }
@@ -1,9 +1,12 @@
 import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+import { silentLogger } from "../core/logger";
+import { noopTracer } from "../core/tracing";
 import {
 	createChart,
 	deleteChart,
 	getChart,
 	listCharts,
+	streamChartData,
 	updateChart,
 } from "./charts";
 
@@ -14,9 +17,12 @@ describe("routes/charts", () => {
 		put: Mock;
 		delete: Mock;
 		getDefaultTenantId: Mock;
+		getLogger: Mock;
+		getTracer: Mock;
 	};
 	let mockQueryEngine: {
 		validateAndExecute: Mock;
+		validateAndStream: Mock;
 		getDefaultDatabase: Mock;
 	};
 
@@ -27,10 +33,13 @@ describe("routes/charts", () => {
 			put: vi.fn(),
 			delete: vi.fn(),
 			getDefaultTenantId: vi.fn(() => "default-tenant"),
+			getLogger: vi.fn(() => silentLogger),
+			getTracer: vi.fn(() => noopTracer),
 		};
 
 		mockQueryEngine = {
 			validateAndExecute: vi.fn(),
+			validateAndStream: vi.fn(),
 			getDefaultDatabase: vi.fn(() => "default-db"),
 		};
 	});
@@ -263,15 +272,42 @@ describe("routes/charts", () => {
 				{ id: 1 },
 				"custom-db",
 				"tenant-1",
+				{ cacheTtlMs: undefined },
 			);
 			expect(mockQueryEngine.validateAndExecute).toHaveBeenCalledWith(
 				"SELECT * FROM orders",
 				{},
 				"default-db", // Using default db since target_db is null
 				"tenant-1",
+				{ cacheTtlMs: undefined },
 			);
 		});
 
+		it("should pass a cache TTL per chart", async () => {
+			mockClient.get.mockResolvedValue({
+				data: [
+					{ id: "live", sql: "SELECT 1", sql_params: null, vega_lite_spec: {} },
+					{ id: "daily", sql: "SELECT 2", sql_params: null, vega_lite_spec: {} },
+				],
+				pagination: {},
+			});
+			mockQueryEngine.validateAndExecute.mockResolvedValue({
+				rows: [],
+				fields: [],
+			});
+
+			await listCharts(mockClient, mockQueryEngine, {
+				tenantId: "tenant-1",
+				includeData: true,
+				cacheTtlMs: (chart) => (chart.id === "daily" ? 3_600_000 : 0),
+			});
+
+			const ttls = mockQueryEngine.validateAndExecute.mock.calls.map(
+				(call: any[]) => call[4],
+			);
+			expect(ttls).toEqual([{ cacheTtlMs: 0 }, { cacheTtlMs: 3_600_000 }]);
+		});
+
 		it("should use default tenant ID if not provided", async () => {
 			mockClient.get.mockResolvedValue({
 				data: [],
@@ -344,6 +380,7 @@ describe("routes/charts", () => {
 				{},
 				"default-db",
 				"tenant-1",
+				{ cacheTtlMs: undefined },
 			);
 		});
 
@@ -356,6 +393,47 @@ describe("routes/charts", () => {
 		});
 	});
 
+	describe("streamChartData", () => {
+		it("should stream chart rows in batches", async () => {
+			mockClient.get.mockResolvedValue({
+				id: "chart-1",
+				sql: "SELECT * FROM events",
+				sql_params: { limit: 10 },
+				target_db: "analytics",
+			});
+			mockQueryEngine.validateAndStream.mockImplementation(async function* () {
+				yield [{ id: 1 }, { id: 2 }];
+				yield [{ id: 3 }];
+			});
+
+			const batches: unknown[] = [];
+			for await (const rows of streamChartData(
+				mockClient,
+				mockQueryEngine,
+				"chart-1",
+				{ tenantId: "tenant-1", batchSize: 2 },
+			)) {
+				batches.push(rows);
+			}
+
+			expect(batches).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+			expect(mockClient.get).toHaveBeenCalledWith(
+				"/charts/chart-1",
+				"tenant-1",
+				undefined,
+				undefined,
+				undefined,
+			);
+			expect(mockQueryEngine.validateAndStream).toHaveBeenCalledWith(
+				"SELECT * FROM events",
+				{ limit: 10 },
+				"analytics",
+				"tenant-1",
+				{ batchSize: 2 },
+			);
+		});
+	});
+
 	describe("updateChart", () => {
 		it("should update a chart", async () => {
 			const updateInput = {
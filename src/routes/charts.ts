@@ -1,4 +1,10 @@
+import type { RowBatchStream } from "../adapters/types";
 import type { ApiClient } from "../core/client";
+import {
+	DatabaseNotAttachedError,
+	TenantRequiredError,
+} from "../core/errors";
+import type { Logger } from "../core/logger";
 import type { ParamRecord, QueryEngine } from "../core/query-engine";
 
 export interface SdkChart {
@@ -59,6 +65,12 @@ export interface PaginatedResponse<T> {
 	pagination: PaginationInfo;
 }
 
+/**
+ * How long hydrated chart rows are cached, in milliseconds or per chart.
+ * 0 bypasses the cache. Applies only when a result cache is configured.
+ */
+export type ChartCacheTtl = number | ((chart: SdkChart) => number);
+
 export interface ChartListOptions {
 	tenantId?: string;
 	userId?: string;
@@ -73,6 +85,7 @@ export interface ChartListOptions {
 	updatedFrom?: string;
 	updatedTo?: string;
 	includeData?: boolean;
+	cacheTtlMs?: ChartCacheTtl;
 }
 
 interface RequestOptions {
@@ -81,6 +94,10 @@ interface RequestOptions {
 	scopes?: string[];
 }
 
+export interface ChartGetOptions extends RequestOptions {
+	cacheTtlMs?: ChartCacheTtl;
+}
+
 /**
  * Route module for Chart CRUD operations
  * Simple pass-through to backend with optional data hydration
@@ -138,7 +155,13 @@ export async function listCharts(
 				vega_lite_spec: {
 					...chart.vega_lite_spec,
 					data: {
-						values: await executeChartQuery(queryEngine, chart, tenantId),
+						values: await executeChartQuery(
+							queryEngine,
+							chart,
+							tenantId,
+							client.getLogger(),
+							options.cacheTtlMs,
+						),
 					},
 				},
 			})),
@@ -152,7 +175,7 @@ export async function getChart(
 	client: ApiClient,
 	queryEngine: QueryEngine,
 	id: string,
-	options?: RequestOptions,
+	options?: ChartGetOptions,
 	signal?: AbortSignal,
 ): Promise<SdkChart> {
 	const tenantId = resolveTenantId(client, options?.tenantId);
@@ -169,12 +192,62 @@ export async function getChart(
 		vega_lite_spec: {
 			...chart.vega_lite_spec,
 			data: {
-				values: await executeChartQuery(queryEngine, chart, tenantId),
+				values: await executeChartQuery(
+					queryEngine,
+					chart,
+					tenantId,
+					client.getLogger(),
+					options?.cacheTtlMs,
+				),
 			},
 		},
 	};
 }
 
+export interface ChartStreamOptions extends RequestOptions {
+	/** Rows per batch hint passed to the adapter */
+	batchSize?: number;
+}
+
+/**
+ * Streams a saved chart's rows in batches instead of buffering them,
+ * with the same read-only, tenant isolation and row limit checks as getChart
+ */
+export async function* streamChartData(
+	client: ApiClient,
+	queryEngine: QueryEngine,
+	id: string,
+	options?: ChartStreamOptions,
+	signal?: AbortSignal,
+): RowBatchStream {
+	const tenantId = resolveTenantId(client, options?.tenantId);
+	const chart = await client.get<SdkChart>(
+		`/charts/${encodeURIComponent(id)}`,
+		tenantId,
+		options?.userId,
+		options?.scopes,
+		signal,
+	);
+
+	const databaseName = chart.target_db ?? queryEngine.getDefaultDatabase();
+	if (!databaseName) {
+		throw new DatabaseNotAttachedError(
+			"No database available to execute chart query",
+		);
+	}
+
+	for await (const rows of queryEngine.validateAndStream(
+		chart.sql,
+		(chart.sql_params as ParamRecord | null) ?? {},
+		databaseName,
+		tenantId,
+		{ batchSize: options?.batchSize },
+	)) {
+		signal?.throwIfAborted();
+		yield rows;
+	}
+}
+
 export async function updateChart(
 	client: ApiClient,
 	id: string,
@@ -212,9 +285,7 @@ export async function deleteChart(
 function resolveTenantId(client: ApiClient, tenantId?: string): string {
 	const resolved = tenantId ?? client.getDefaultTenantId();
 	if (!resolved) {
-		throw new Error(
-			"tenantId is required. Provide it per request or via defaultTenantId option.",
-		);
+		throw new TenantRequiredError();
 	}
 	return resolved;
 }
@@ -223,22 +294,33 @@ async function executeChartQuery(
 	queryEngine: QueryEngine,
 	chart: SdkChart,
 	tenantId: string,
+	logger: Logger,
+	cacheTtl?: ChartCacheTtl,
 ): Promise<Record<string, unknown>[]> {
 	const databaseName = chart.target_db ?? queryEngine.getDefaultDatabase();
 	if (!databaseName) {
-		console.warn("No database available to execute chart query");
+		logger.warn(
+			{ chartId: chart.id, tenantId },
+			"No database available to execute chart query",
+		);
 		return [];
 	}
 	try {
+		const cacheTtlMs =
+			typeof cacheTtl === "function" ? cacheTtl(chart) : cacheTtl;
 		const result = await queryEngine.validateAndExecute(
 			chart.sql,
 			(chart.sql_params as ParamRecord | null) ?? {},
 			databaseName,
 			tenantId,
+			{ cacheTtlMs },
 		);
 		return result.rows;
 	} catch (error) {
-		console.warn(`Failed to execute chart query: ${error}`);
+		logger.warn(
+			{ chartId: chart.id, tenantId, database: databaseName, err: error },
+			"Failed to execute chart query",
+		);
 		return [];
 	}
 }
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+import { silentLogger } from "../core/logger";
+import { noopTracer } from "../core/tracing";
+import { Conversation } from "./conversation";
+
+describe("routes/conversation", () => {
+	let mockClient: {
+		post: Mock;
+		getDefaultTenantId: Mock;
+		getLogger: Mock;
+		getTracer: Mock;
+	};
+	let mockQueryEngine: {
+		getDefaultDatabase: Mock;
+		getDatabaseMetadata: Mock;
+		mapGeneratedParams: Mock;
+		validateAndExecute: Mock;
+	};
+
+	beforeEach(() => {
+		mockClient = {
+			post: vi.fn(async (path: string, body: any) =>
+				path === "/query"
+					? {
+							success: true,
+							sql: `SELECT /* ${body.question} */ country FROM orders`,
+							params: [],
+							dialect: "postgres",
+							queryId: `q-${body.question}`,
+						}
+					: { chart: { mark: "bar" }, notes: null },
+			),
+			getDefaultTenantId: vi.fn(() => undefined),
+			getLogger: vi.fn(() => silentLogger),
+			getTracer: vi.fn(() => noopTracer),
+		};
+		mockQueryEngine = {
+			getDefaultDatabase: vi.fn(() => "analytics"),
+			getDatabaseMetadata: vi.fn(() => ({
+				name: "analytics",
+				dialect: "postgres",
+			})),
+			mapGeneratedParams: vi.fn(() => ({})),
+			validateAndExecute: vi.fn(async () => ({
+				rows: [{ country: "DE" }],
+				fields: ["country"],
+				truncated: false,
+			})),
+		};
+	});
+
+	const queryCalls = () =>
+		mockClient.post.mock.calls.filter((call) => call[0] === "/query");
+
+	it("should send earlier turns without result rows as context", async () => {
+		const conversation = new Conversation(
+			mockClient as any,
+			mockQueryEngine as any,
+			{ tenantId: "tenant-1" },
+		);
+
+		await conversation.ask("revenue by country");
+		await conversation.ask("now only for Germany");
+
+		const [first, second] = queryCalls();
+		expect(first?.[1].conversation_history).toBeUndefined();
+		expect(second?.[1].conversation_history).toEqual([
+			{
+				question: "revenue by country",
+				sql: "SELECT /* revenue by country */ country FROM orders",
+				rationale: undefined,
+				query_id: "q-revenue by country",
+				chart_spec: { mark: "bar" },
+			},
+		]);
+		expect(conversation.history).toHaveLength(2);
+		expect(conversation.history[0]?.chart?.vegaLiteSpec).toEqual({
+			mark: "bar",
+		});
+	});
+
+	it("should reuse one session and tenant for every question", async () => {
+		const conversation = new Conversation(
+			mockClient as any,
+			mockQueryEngine as any,
+			{ tenantId: "tenant-1" },
+		);
+
+		await conversation.ask("first");
+		await conversation.ask("second", { chartType: "vega-lite" });
+
+		for (const call of mockClient.post.mock.calls) {
+			expect(call[2]).toBe("tenant-1");
+			expect(call[6]).toBe(conversation.id);
+		}
+	});
+
+	it("should cap history at maxTurns and forget it on reset", async () => {
+		const conversation = new Conversation(
+			mockClient as any,
+			mockQueryEngine as any,
+			{ tenantId: "tenant-1", maxTurns: 1 },
+		);
+
+		await conversation.ask("one");
+		await conversation.ask("two");
+		await conversation.ask("three");
+		conversation.reset();
+		await conversation.ask("four");
+
+		const histories = queryCalls().map((call) =>
+			call[1].conversation_history?.map((turn: any) => turn.question),
+		);
+		expect(histories).toEqual([undefined, ["one"], ["two"], undefined]);
+	});
+});
@@ -0,0 +1,116 @@
+import crypto from "node:crypto";
+import type { ApiClient } from "../core/client";
+import type { QueryEngine } from "../core/query-engine";
+import {
+	type AskOptions,
+	type AskResponse,
+	type AskStreamEvent,
+	type ChartEnvelope,
+	type ConversationTurn,
+	askStream,
+} from "./query";
+
+export interface ConversationOptions
+	extends Omit<
+		AskOptions,
+		"lastError" | "previousSql" | "sessionId" | "history"
+	> {
+	/** Most recent turns sent as context with each question. Defaults to 10. */
+	maxTurns?: number;
+}
+
+/** Per-question overrides; tenant and user stay fixed for the conversation */
+export type ConversationAskOptions = Omit<
+	ConversationOptions,
+	"tenantId" | "userId" | "maxTurns"
+>;
+
+const DEFAULT_MAX_TURNS = 10;
+
+/**
+ * Stateful follow-up questions: every ask() shares one session and sends the
+ * previous questions, SQL and chart specs, so "now only for Germany" resolves
+ * against the last answer
+ */
+export class Conversation {
+	/** Session ID sent with every request of this conversation */
+	readonly id = crypto.randomUUID();
+	private readonly turns: ConversationTurn[] = [];
+
+	constructor(
+		private readonly client: ApiClient,
+		private readonly queryEngine: QueryEngine,
+		private readonly options: ConversationOptions = {},
+	) {}
+
+	/** Answered turns, oldest first */
+	get history(): readonly ConversationTurn[] {
+		return this.turns;
+	}
+
+	async ask(
+		question: string,
+		options?: ConversationAskOptions,
+		signal?: AbortSignal,
+	): Promise<AskResponse> {
+		for await (const event of this.askStream(question, options, signal)) {
+			if (event.type === "done") {
+				return event.response;
+			}
+		}
+
+		// This should never be reached, but TypeScript needs it
+		throw new Error("Unexpected error in conversation ask");
+	}
+
+	/**
+	 * Same events as askStream(); the turn is recorded once `done` is yielded
+	 */
+	async *askStream(
+		question: string,
+		options?: ConversationAskOptions,
+		signal?: AbortSignal,
+	): AsyncGenerator<AskStreamEvent, void, undefined> {
+		const { maxTurns = DEFAULT_MAX_TURNS, ...defaults } = this.options;
+
+		for await (const event of askStream(
+			this.client,
+			this.queryEngine,
+			question,
+			{
+				...defaults,
+				...options,
+				sessionId: this.id,
+				history: maxTurns > 0 ? this.turns.slice(-maxTurns) : [],
+			},
+			signal,
+		)) {
+			if (event.type === "done") {
+				this.turns.push({
+					question,
+					sql: event.response.sql,
+					rationale: event.response.rationale,
+					queryId: event.response.queryId,
+					chart: withoutRows(event.response.chart),
+				});
+			}
+			yield event;
+		}
+	}
+
+	/** Forget previous turns; the session ID is kept */
+	reset(): void {
+		this.turns.length = 0;
+	}
+}
+
+/**
+ * Vega-Lite specs embed the result rows as data.values; history keeps only the spec
+ */
+function withoutRows(chart: ChartEnvelope): ChartEnvelope {
+	if (!chart.vegaLiteSpec) {
+		return chart;
+	}
+	const { data: _data, ...spec } = chart.vegaLiteSpec;
+	return { ...chart, vegaLiteSpec: spec };
+}
@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { syncSchema } from "./ingest";
+import { diffSchema, syncSchema } from "./ingest";
 import type { ApiClient } from "../core/client";
 import type { QueryEngine } from "../core/query-engine";
+import { silentLogger } from "../core/logger";
+import { noopTracer } from "../core/tracing";
 import type { DatabaseAdapter } from "../adapters/types";
 import type { SchemaIntrospection } from "../schema/types";
 
@@ -14,6 +16,8 @@ describe("routes/ingest", () => {
 		mockClient = {
 			post: vi.fn(),
 			getDefaultTenantId: vi.fn(() => "default-tenant"),
+			getLogger: vi.fn(() => silentLogger),
+			getTracer: vi.fn(() => noopTracer),
 		} as any;
 
 		mockAdapter = {
@@ -252,6 +256,211 @@ describe("routes/ingest", () => {
 			expect(payload.tables[0].columns[1].data_type).toBe("text");
 		});
 
+		it("should forward column metadata the adapter reported", async () => {
+			(mockAdapter.introspect as any).mockResolvedValue({
+				db: { kind: "clickhouse", name: "test-db" },
+				tables: [
+					{
+						name: "events",
+						schema: "default",
+						type: "table",
+						columns: [
+							{
+								name: "kind",
+								type: "Enum8('click' = 1, 'view' = 2)",
+								isPrimaryKey: false,
+								nullable: false,
+								enumValues: ["click", "view"],
+								defaultExpression: "'click'",
+							},
+							{ name: "amount", type: "Decimal(18, 4)", isPrimaryKey: false, precision: 18, scale: 4 },
+							{ name: "code", type: "FixedString(3)", isPrimaryKey: false, maxLength: 3 },
+						],
+					},
+				],
+				introspectedAt: "2025-01-01T00:00:00Z",
+			});
+			(mockClient.post as any).mockResolvedValue({ success: true });
+
+			await syncSchema(mockClient, mockQueryEngine, "test-db", {
+				tenantId: "tenant-1",
+			});
+
+			const payload = (mockClient.post as any).mock.calls[0][1] as any;
+			expect(payload.tables[0].columns).toEqual([
+				{
+					name: "kind",
+					data_type: "Enum8('click' = 1, 'view' = 2)",
+					is_primary_key: false,
+					description: "",
+					nullable: false,
+					enum_values: ["click", "view"],
+					default_expression: "'click'",
+				},
+				{
+					name: "amount",
+					data_type: "Decimal(18, 4)",
+					is_primary_key: false,
+					description: "",
+					precision: 18,
+					scale: 4,
+				},
+				{
+					name: "code",
+					data_type: "FixedString(3)",
+					is_primary_key: false,
+					description: "",
+					max_length: 3,
+				},
+			]);
+		});
+
+		it("should upload sample values only when sampleValues is set", async () => {
+			(mockAdapter.introspect as any).mockResolvedValue({
+				db: { kind: "postgres", name: "test-db" },
+				tables: [
+					{
+						name: "orders",
+						schema: "public",
+						type: "table",
+						columns: [{ name: "status", type: "text", isPrimaryKey: false }],
+					},
+				],
+				introspectedAt: "2025-01-01T00:00:00Z",
+			});
+			(mockClient.post as any).mockResolvedValue({ success: true });
+			(mockAdapter.execute as any).mockResolvedValue({
+				rows: [{ schema_name: "public", table_name: "orders", row_estimate: 3 }],
+			});
+			(mockQueryEngine as any).validateAndExecute = vi.fn(async () => ({
+				rows: [{ qp_value: "paid" }],
+			}));
+
+			await syncSchema(mockClient, mockQueryEngine, "test-db", {
+				tenantId: "tenant-1",
+			});
+			await syncSchema(mockClient, mockQueryEngine, "test-db", {
+				tenantId: "tenant-1",
+				sampleValues: true,
+			});
+
+			const [plain, sampled] = (mockClient.post as any).mock.calls.map(
+				(call: any[]) => call[1].tables[0],
+			);
+			expect(plain.row_count).toBeUndefined();
+			expect(plain.columns[0].sample_values).toBeUndefined();
+			expect(sampled.row_count).toBe(3);
+			expect(sampled.columns[0].sample_values).toEqual(["paid"]);
+		});
+
+		it("should merge annotations into the payload", async () => {
+			(mockAdapter.introspect as any).mockResolvedValue({
+				db: { kind: "postgres", name: "test-db" },
+				tables: [
+					{
+						name: "orders",
+						schema: "public",
+						type: "table",
+						columns: [
+							{ name: "amount", type: "numeric", isPrimaryKey: false },
+							{ name: "internal_notes", type: "text", isPrimaryKey: false },
+						],
+					},
+				],
+				introspectedAt: "2025-01-01T00:00:00Z",
+			});
+			(mockClient.post as any).mockResolvedValue({ success: true });
+
+			await syncSchema(mockClient, mockQueryEngine, "test-db", {
+				tenantId: "tenant-1",
+				annotations: {
+					tables: {
+						orders: {
+							description: "Customer orders",
+							preferredDateColumn: "created_at",
+							columns: {
+								amount: { unit: "EUR", synonyms: ["total"] },
+								internal_notes: { hidden: true },
+							},
+						},
+					},
+					metrics: [
+						{
+							name: "revenue",
+							table: "orders",
+							expression: "SUM(amount)",
+							filter: "status = 'paid'",
+						},
+					],
+				},
+			});
+
+			const payload = (mockClient.post as any).mock.calls[0][1];
+			expect(payload.tables[0]).toMatchObject({
+				description: "Customer orders",
+				preferred_date_column: "created_at",
+			});
+			expect(payload.tables[0].columns).toEqual([
+				expect.objectContaining({
+					name: "amount",
+					unit: "EUR",
+					synonyms: ["total"],
+				}),
+			]);
+			expect(payload.metrics).toEqual([
+				{
+					name: "revenue",
+					table: "orders",
+					expression: "SUM(amount)",
+					filter: "status = 'paid'",
+				},
+			]);
+		});
+
+		it("should send relationships in snake_case", async () => {
+			(mockAdapter.introspect as any).mockResolvedValue({
+				db: { kind: "postgres", name: "test-db" },
+				tables: [
+					{
+						name: "orders",
+						schema: "public",
+						type: "table",
+						columns: [{ name: "user_id", type: "integer", isPrimaryKey: false }],
+						relationships: [
+							{
+								name: "orders_user_id_fkey",
+								columns: ["user_id"],
+								targetSchema: "public",
+								targetTable: "users",
+								targetColumns: ["id"],
+								cardinality: "many-to-one",
+								origin: "foreign_key",
+							},
+						],
+					},
+				],
+				introspectedAt: "2025-01-01T00:00:00Z",
+			});
+			(mockClient.post as any).mockResolvedValue({ success: true });
+
+			await syncSchema(mockClient, mockQueryEngine, "test-db", {
+				tenantId: "tenant-1",
+			});
+
+			const payload = (mockClient.post as any).mock.calls[0][1] as any;
+			expect(payload.tables[0].relationships).toEqual([
+				{
+					name: "orders_user_id_fkey",
+					columns: ["user_id"],
+					target_schema: "public",
+					target_table: "users",
+					target_columns: ["id"],
+					cardinality: "many-to-one",
+					origin: "foreign_key",
+				},
+			]);
+		});
+
 		it("should include userId and scopes in request", async () => {
 			(mockAdapter.introspect as any).mockResolvedValue({
 				db: { kind: "postgres", name: "test-db" },
@@ -370,5 +579,78 @@ describe("routes/ingest", () => {
 			const payload = (mockClient.post as any).mock.calls[0][1] as any;
 			expect(payload.tenant_settings).toBeUndefined();
 		});
+
+		it("should return the diff and payload without calling /ingest on dryRun", async () => {
+			const previous: SchemaIntrospection = {
+				db: { kind: "postgres", name: "test-db" },
+				tables: [
+					{
+						name: "orders",
+						schema: "public",
+						type: "table",
+						columns: [{ name: "amount", type: "numeric", isPrimaryKey: false }],
+					},
+				],
+				introspectedAt: "2025-01-01T00:00:00Z",
+			};
+			(mockAdapter.introspect as any).mockResolvedValue({
+				...previous,
+				tables: [
+					{
+						...previous.tables[0],
+						columns: [{ name: "amount", type: "bigint", isPrimaryKey: false }],
+					},
+				],
+			});
+
+			const result = await syncSchema(mockClient, mockQueryEngine, "test-db", {
+				tenantId: "tenant-1",
+				dryRun: true,
+				previousSchema: previous,
+			});
+
+			expect(mockClient.post).not.toHaveBeenCalled();
+			expect(result.dryRun).toBe(true);
+			expect(result.payload.tables[0]?.columns[0]?.data_type).toBe("bigint");
+			expect(result.diff.changed).toBe(true);
+			expect(result.diff.changedTables[0]?.typeChanges).toEqual([
+				{ column: "amount", from: "numeric", to: "bigint" },
+			]);
+		});
+	});
+
+	describe("diffSchema", () => {
+		it("should diff the introspected schema without calling the backend", async () => {
+			const introspection: SchemaIntrospection = {
+				db: { kind: "postgres", name: "test-db" },
+				tables: [
+					{
+						name: "orders",
+						schema: "public",
+						type: "table",
+						columns: [{ name: "amount", type: "numeric", isPrimaryKey: false }],
+					},
+				],
+				introspectedAt: "2025-01-01T00:00:00Z",
+			};
+			(mockAdapter.introspect as any).mockResolvedValue(introspection);
+
+			const first = await diffSchema(mockClient, mockQueryEngine, "test-db");
+			const second = await diffSchema(
+				mockClient,
+				mockQueryEngine,
+				"test-db",
+				first.schema,
+				{ tables: ["orders"] },
+			);
+
+			expect(mockClient.post).not.toHaveBeenCalled();
+			expect(first.addedTables).toEqual(["public.orders"]);
+			expect(second.changed).toBe(false);
+			expect(second.hash).toBe(first.hash);
+			expect(mockAdapter.introspect).toHaveBeenLastCalledWith({
+				tables: ["orders"],
+			});
+		});
 	});
 });
@@ -1,7 +1,22 @@
 import crypto from 'node:crypto';
 import type { ApiClient } from "../core/client";
+import { TenantRequiredError } from "../core/errors";
 import type { QueryEngine } from "../core/query-engine";
-import type { SchemaIntrospection } from "../schema/types";
+import { withSpan } from "../core/tracing";
+import {
+	applySchemaAnnotations,
+	type SchemaAnnotations,
+} from "../schema/annotations";
+import { diffSchemas, type SchemaDiff } from "../schema/diff";
+import {
+	collectSampleValues,
+	type SampleValuesOptions,
+} from "../schema/samples";
+import type {
+	ColumnSchema,
+	MetricDefinition,
+	SchemaIntrospection,
+} from "../schema/types";
 
 export interface IngestResponse {
 	success: boolean;
@@ -20,25 +35,80 @@ export interface SchemaSyncOptions {
 	scopes?: string[];
 	tables?: string[];
 	forceReindex?: boolean;
+	/**
+	 * Upload row counts, frequent values of low-cardinality string columns and
+	 * min/max of numeric and date columns, so generated filters use real
+	 * literals. Off by default; sensitive-looking columns are never sampled.
+	 */
+	sampleValues?: boolean | SampleValuesOptions;
+	/**
+	 * Descriptions, synonyms, units, hidden columns and metric definitions
+	 * merged over the introspected schema before upload
+	 */
+	annotations?: SchemaAnnotations;
+	/**
+	 * Build the payload and diff without calling /ingest. The diff compares
+	 * against `previousSchema`, or reports every table as added.
+	 */
+	dryRun?: boolean;
+	/** Baseline for the dryRun diff, e.g. `schema` from an earlier diff */
+	previousSchema?: SchemaIntrospection;
 }
 
-interface SchemaIngestColumn {
+export interface SchemaIngestColumn {
 	name: string;
 	data_type: string;
 	is_primary_key: boolean;
 	description: string;
+	nullable?: boolean;
+	precision?: number;
+	scale?: number;
+	max_length?: number;
+	enum_values?: string[];
+	default_expression?: string;
+	sample_values?: string[];
+	sample_min_value?: string | number;
+	sample_max_value?: string | number;
+	synonyms?: string[];
+	unit?: string;
 }
 
-interface SchemaIngestTable {
+export interface SchemaIngestRelationship {
+	name?: string;
+	columns: string[];
+	target_schema: string;
+	target_table: string;
+	target_columns: string[];
+	cardinality: "many-to-one" | "one-to-one";
+	origin: "foreign_key" | "inferred";
+}
+
+export interface SchemaIngestTable {
 	table_name: string;
 	description: string;
 	columns: SchemaIngestColumn[];
+	relationships?: SchemaIngestRelationship[];
+	row_count?: number;
+	synonyms?: string[];
+	preferred_date_column?: string;
+}
+
+export interface SchemaIngestMetric {
+	name: string;
+	table: string;
+	expression: string;
+	filter?: string;
+	description?: string;
+	synonyms?: string[];
+	unit?: string;
 }
 
-interface SchemaIngestRequest {
+export interface SchemaIngestRequest {
 	database: string;
 	dialect: string;
 	tables: SchemaIngestTable[];
+	metrics?: SchemaIngestMetric[];
+	glossary?: Record<string, string>;
 	force_reindex?: boolean;
 	tenant_settings?: {
 		tenantFieldName: string;
@@ -47,30 +117,95 @@ interface SchemaIngestRequest {
 	};
 }
 
+export interface SchemaDiffOptions {
+	tables?: string[];
+	/** Applied before diffing so the result matches what syncSchema would upload */
+	annotations?: SchemaAnnotations;
+}
+
+export interface SchemaDiffReport extends SchemaDiff {
+	/** The current schema; keep it to diff against on the next run */
+	schema: SchemaIntrospection;
+}
+
+/** What syncSchema returns with `dryRun: true` */
+export interface SchemaSyncPreview {
+	dryRun: true;
+	diff: SchemaDiffReport;
+	payload: SchemaIngestRequest;
+}
+
 /**
  * Route module for schema ingestion
  * Handles introspection and sync to backend
  */
+export function syncSchema(
+	client: ApiClient,
+	queryEngine: QueryEngine,
+	databaseName: string,
+	options: SchemaSyncOptions & { dryRun: true },
+	signal?: AbortSignal,
+): Promise<SchemaSyncPreview>;
+export function syncSchema(
+	client: ApiClient,
+	queryEngine: QueryEngine,
+	databaseName: string,
+	options: SchemaSyncOptions,
+	signal?: AbortSignal,
+): Promise<IngestResponse>;
 export async function syncSchema(
 	client: ApiClient,
 	queryEngine: QueryEngine,
 	databaseName: string,
 	options: SchemaSyncOptions,
 	signal?: AbortSignal,
-): Promise<IngestResponse> {
+): Promise<IngestResponse | SchemaSyncPreview> {
 	const tenantId = resolveTenantId(client, options.tenantId);
 	const adapter = queryEngine.getDatabase(databaseName);
 	const metadata = queryEngine.getDatabaseMetadata(databaseName);
 
-	const introspection = await adapter.introspect(
-		options.tables ? { tables: options.tables } : undefined,
-	);
+	let introspection = await introspectSchema(client, queryEngine, databaseName, options);
+
+	const sampling =
+		options.sampleValues === true ? {} : options.sampleValues || undefined;
+	if (sampling) {
+		await withSpan(
+			client.getTracer(),
+			"querypanel.schema.sample",
+			{ "db.system": adapter.getDialect(), "db.namespace": databaseName },
+			() =>
+				collectSampleValues(
+					queryEngine,
+					databaseName,
+					tenantId,
+					introspection,
+					sampling,
+					client.getLogger(),
+				),
+		);
+	}
+
+	// Applied after sampling so hidden columns are dropped before upload either way
+	if (options.annotations) {
+		introspection = applySchemaAnnotations(introspection, options.annotations);
+	}
 
 	const payload = buildSchemaRequest(databaseName, adapter, introspection, metadata);
 	if (options.forceReindex) {
 		payload.force_reindex = true;
 	}
 
+	if (options.dryRun) {
+		return {
+			dryRun: true,
+			diff: {
+				...diffSchemas(options.previousSchema, introspection),
+				schema: introspection,
+			},
+			payload,
+		};
+	}
+
 	// Generate a session id so backend telemetry can correlate all work for this sync
 	const sessionId = crypto.randomUUID();
 
@@ -87,12 +222,97 @@ export async function syncSchema(
 	return response;
 }
 
+/**
+ * Introspects the database and diffs it against `previous` without
+ * contacting the backend
+ */
+export async function diffSchema(
+	client: ApiClient,
+	queryEngine: QueryEngine,
+	databaseName: string,
+	previous?: SchemaIntrospection,
+	options: SchemaDiffOptions = {},
+): Promise<SchemaDiffReport> {
+	let introspection = await introspectSchema(client, queryEngine, databaseName, options);
+	if (options.annotations) {
+		introspection = applySchemaAnnotations(introspection, options.annotations);
+	}
+	return { ...diffSchemas(previous, introspection), schema: introspection };
+}
+
+async function introspectSchema(
+	client: ApiClient,
+	queryEngine: QueryEngine,
+	databaseName: string,
+	options: { tables?: string[] },
+): Promise<SchemaIntrospection> {
+	const adapter = queryEngine.getDatabase(databaseName);
+	return await withSpan(
+		client.getTracer(),
+		"querypanel.schema.introspect",
+		{ "db.system": adapter.getDialect(), "db.namespace": databaseName },
+		() =>
+			adapter.introspect(
+				options.tables ? { tables: options.tables } : undefined,
+			),
+	);
+}
+
+/**
+ * Optional metadata is only sent when the adapter reported it
+ */
+function buildIngestColumn(column: ColumnSchema): SchemaIngestColumn {
+	const ingestColumn: SchemaIngestColumn = {
+		name: column.name,
+		data_type: column.rawType ?? column.type,
+		is_primary_key: Boolean(column.isPrimaryKey),
+		description: column.comment ?? "",
+	};
+	if (column.nullable !== undefined) ingestColumn.nullable = column.nullable;
+	if (column.precision !== undefined) ingestColumn.precision = column.precision;
+	if (column.scale !== undefined) ingestColumn.scale = column.scale;
+	if (column.maxLength !== undefined) {
+		ingestColumn.max_length = column.maxLength;
+	}
+	if (column.enumValues !== undefined) {
+		ingestColumn.enum_values = column.enumValues;
+	}
+	if (column.defaultExpression !== undefined) {
+		ingestColumn.default_expression = column.defaultExpression;
+	}
+	if (column.sampleValues !== undefined) {
+		ingestColumn.sample_values = column.sampleValues;
+	}
+	if (column.sampleMinValue !== undefined) {
+		ingestColumn.sample_min_value = column.sampleMinValue;
+	}
+	if (column.sampleMaxValue !== undefined) {
+		ingestColumn.sample_max_value = column.sampleMaxValue;
+	}
+	if (column.synonyms?.length) ingestColumn.synonyms = column.synonyms;
+	if (column.unit !== undefined) ingestColumn.unit = column.unit;
+	return ingestColumn;
+}
+
+function buildIngestMetric(metric: MetricDefinition): SchemaIngestMetric {
+	const ingestMetric: SchemaIngestMetric = {
+		name: metric.name,
+		table: metric.table,
+		expression: metric.expression,
+	};
+	if (metric.filter !== undefined) ingestMetric.filter = metric.filter;
+	if (metric.description !== undefined) {
+		ingestMetric.description = metric.description;
+	}
+	if (metric.synonyms?.length) ingestMetric.synonyms = metric.synonyms;
+	if (metric.unit !== undefined) ingestMetric.unit = metric.unit;
+	return ingestMetric;
+}
+
 function resolveTenantId(client: ApiClient, tenantId?: string): string {
 	const resolved = tenantId ?? client.getDefaultTenantId();
 	if (!resolved) {
-		throw new Error(
-			"tenantId is required. Provide it per request or via defaultTenantId option.",
-		);
+		throw new TenantRequiredError();
 	}
 	return resolved;
 }
@@ -108,22 +328,41 @@ function buildSchemaRequest(
 	},
 ): SchemaIngestRequest {
 	const dialect = adapter.getDialect();
-	const tables: SchemaIngestTable[] = introspection.tables.map((table) => ({
-		table_name: table.name,
-		description: table.comment ?? `Table ${table.name}`,
-		columns: table.columns.map((column) => ({
-			name: column.name,
-			data_type: column.rawType ?? column.type,
-			is_primary_key: Boolean(column.isPrimaryKey),
-			description: column.comment ?? "",
-		})),
-	}));
+	const tables: SchemaIngestTable[] = introspection.tables.map((table) => {
+		const ingestTable: SchemaIngestTable = {
+			table_name: table.name,
+			description: table.comment ?? `Table ${table.name}`,
+			columns: table.columns.map(buildIngestColumn),
+		};
+		if (table.rowCount !== undefined) ingestTable.row_count = table.rowCount;
+		if (table.synonyms?.length) ingestTable.synonyms = table.synonyms;
+		if (table.preferredDateColumn !== undefined) {
+			ingestTable.preferred_date_column = table.preferredDateColumn;
+		}
+		// Join paths let the backend pick the right keys when generating JOINs
+		if (table.relationships?.length) {
+			ingestTable.relationships = table.relationships.map((relationship) => ({
+				...(relationship.name ? { name: relationship.name } : {}),
+				columns: relationship.columns,
+				target_schema: relationship.targetSchema,
+				target_table: relationship.targetTable,
+				target_columns: relationship.targetColumns,
+				cardinality: relationship.cardinality,
+				origin: relationship.origin,
+			}));
+		}
+		return ingestTable;
+	});
 
 	const request: SchemaIngestRequest = {
 		database: databaseName,
 		dialect,
 		tables,
 	};
+	if (introspection.metrics?.length) {
+		request.metrics = introspection.metrics.map(buildIngestMetric);
+	}
+	if (introspection.glossary) request.glossary = introspection.glossary;
 
 	// Include tenant_settings if configured in the database metadata
 	if (
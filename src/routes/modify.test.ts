@@ -1,10 +1,12 @@
 import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
+import { noopTracer } from "../core/tracing";
 import { modifyChart } from "./modify";
 
 describe("routes/modify", () => {
 	let mockClient: {
 		post: Mock;
 		getDefaultTenantId: Mock;
+		getTracer: Mock;
 	};
 	let mockQueryEngine: {
 		getDefaultDatabase: Mock;
@@ -17,6 +19,7 @@ describe("routes/modify", () => {
 		mockClient = {
 			post: vi.fn(),
 			getDefaultTenantId: vi.fn(() => "default-tenant"),
+			getTracer: vi.fn(() => noopTracer),
 		};
 
 		mockQueryEngine = {
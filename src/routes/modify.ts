@@ -1,6 +1,11 @@
 import crypto from "node:crypto";
 import type { ApiClient } from "../core/client";
+import {
+	DatabaseNotAttachedError,
+	TenantRequiredError,
+} from "../core/errors";
 import type { ParamRecord, QueryEngine } from "../core/query-engine";
+import { withSpan } from "../core/tracing";
 import type {
 	AggregateOp,
 	ChartType,
@@ -300,9 +305,7 @@ function buildVizHints(
 function resolveTenantId(client: ApiClient, tenantId?: string): string {
 	const resolved = tenantId ?? client.getDefaultTenantId();
 	if (!resolved) {
-		throw new Error(
-			"tenantId is required. Provide it per request or via defaultTenantId option.",
-		);
+		throw new TenantRequiredError();
 	}
 	return resolved;
 }
@@ -369,6 +372,7 @@ export async function modifyChart(
 ): Promise<ChartModifyResponse> {
 	const tenantId = resolveTenantId(client, options?.tenantId);
 	const sessionId = crypto.randomUUID();
+	const tracer = client.getTracer();
 	const chartType = options?.chartType ?? "vega-lite";
 
 	const hasSqlMods = !!input.sqlModifications;
@@ -386,7 +390,7 @@ export async function modifyChart(
 	// Get database metadata for tenant settings
 	const databaseName = input.database ?? queryEngine.getDefaultDatabase();
 	if (!databaseName) {
-		throw new Error(
+		throw new DatabaseNotAttachedError(
 			"No database specified. Provide database in input or attach a default database.",
 		);
 	}
@@ -415,21 +419,30 @@ export async function modifyChart(
 			input.sqlModifications!,
 		);
 
-		const queryResponse = await client.post<ServerQueryResponse>(
-			"/query",
+		const queryResponse = await withSpan(
+			tracer,
+			"querypanel.sql.generate",
 			{
-				question: modifiedQuestion,
-				previous_sql: input.sql,
-				...(options?.maxRetry ? { max_retry: options.maxRetry } : {}),
-				...(tenantSettings ? { tenant_settings: tenantSettings } : {}),
-				...(databaseName ? { database: databaseName } : {}),
-				...(metadata?.dialect ? { dialect: metadata.dialect } : {}),
+				"db.system": metadata?.dialect,
+				"db.namespace": databaseName,
 			},
-			tenantId,
-			options?.userId,
-			options?.scopes,
-			signal,
-			sessionId,
+			() =>
+				client.post<ServerQueryResponse>(
+					"/query",
+					{
+						question: modifiedQuestion,
+						previous_sql: input.sql,
+						...(options?.maxRetry ? { max_retry: options.maxRetry } : {}),
+						...(tenantSettings ? { tenant_settings: tenantSettings } : {}),
+						...(databaseName ? { database: databaseName } : {}),
+						...(metadata?.dialect ? { dialect: metadata.dialect } : {}),
+					},
+					tenantId,
+					options?.userId,
+					options?.scopes,
+					signal,
+					sessionId,
+				),
 		);
 
 		finalSql = queryResponse.sql;
@@ -462,24 +475,33 @@ export async function modifyChart(
 		const vizHints = hasVizMods ? buildVizHints(input.vizModifications!) : {};
 
 		if (chartType === "vizspec") {
-			const vizspecResponse = await client.post<ServerVizSpecResponse>(
-				"/vizspec",
+			const vizspecResponse = await withSpan(
+				tracer,
+				"querypanel.chart.generate",
 				{
-					question: input.question,
-					sql: finalSql,
-					rationale,
-					fields: execution.fields,
-					rows: anonymizeResults(rows),
-					max_retries: options?.chartMaxRetries ?? 3,
-					query_id: queryId,
-					// Include viz hints for the chart generator
-					...(hasVizMods ? { encoding_hints: vizHints } : {}),
+					"querypanel.chart_type": "vizspec",
+					"querypanel.row_count": rows.length,
 				},
-				tenantId,
-				options?.userId,
-				options?.scopes,
-				signal,
-				sessionId,
+				() =>
+					client.post<ServerVizSpecResponse>(
+						"/vizspec",
+						{
+							question: input.question,
+							sql: finalSql,
+							rationale,
+							fields: execution.fields,
+							rows: anonymizeResults(rows),
+							max_retries: options?.chartMaxRetries ?? 3,
+							query_id: queryId,
+							// Include viz hints for the chart generator
+							...(hasVizMods ? { encoding_hints: vizHints } : {}),
+						},
+						tenantId,
+						options?.userId,
+						options?.scopes,
+						signal,
+						sessionId,
+					),
 			);
 
 			chart = {
@@ -488,24 +510,33 @@ export async function modifyChart(
 				notes: vizspecResponse.notes,
 			};
 		} else {
-			const chartResponse = await client.post<ServerChartResponse>(
-				"/chart",
+			const chartResponse = await withSpan(
+				tracer,
+				"querypanel.chart.generate",
 				{
-					question: input.question,
-					sql: finalSql,
-					rationale,
-					fields: execution.fields,
-					rows: anonymizeResults(rows),
-					max_retries: options?.chartMaxRetries ?? 3,
-					query_id: queryId,
-					// Include viz hints for the chart generator
-					...(hasVizMods ? { encoding_hints: vizHints } : {}),
+					"querypanel.chart_type": "vega-lite",
+					"querypanel.row_count": rows.length,
 				},
-				tenantId,
-				options?.userId,
-				options?.scopes,
-				signal,
-				sessionId,
+				() =>
+					client.post<ServerChartResponse>(
+						"/chart",
+						{
+							question: input.question,
+							sql: finalSql,
+							rationale,
+							fields: execution.fields,
+							rows: anonymizeResults(rows),
+							max_retries: options?.chartMaxRetries ?? 3,
+							query_id: queryId,
+							// Include viz hints for the chart generator
+							...(hasVizMods ? { encoding_hints: vizHints } : {}),
+						},
+						tenantId,
+						options?.userId,
+						options?.scopes,
+						signal,
+						sessionId,
+					),
 			);
 
 			chart = {
@@ -530,6 +561,7 @@ export async function modifyChart(
 		queryId,
 		rows,
 		fields: execution.fields,
+		truncated: execution.truncated,
 		chart,
 		attempts: 1,
 		target_db: databaseName,
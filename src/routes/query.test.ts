@@ -1,10 +1,20 @@
 import { beforeEach, describe, expect, it, type Mock, vi } from "vitest";
-import { anonymizeResults, ask } from "./query";
+import {
+	QueryPanelApiError,
+	SqlExecutionError,
+	TenantRequiredError,
+} from "../core/errors";
+import { silentLogger } from "../core/logger";
+import { noopTracer } from "../core/tracing";
+import { recordingTracer } from "../test-utils";
+import { anonymizeResults, ask, askStream } from "./query";
 
 describe("routes/query", () => {
 	let mockClient: {
 		post: Mock;
 		getDefaultTenantId: Mock;
+		getLogger: Mock;
+		getTracer: Mock;
 	};
 	let mockQueryEngine: {
 		getDefaultDatabase: Mock;
@@ -17,6 +27,8 @@ describe("routes/query", () => {
 		mockClient = {
 			post: vi.fn(),
 			getDefaultTenantId: vi.fn(() => "default-tenant"),
+			getLogger: vi.fn(() => silentLogger),
+			getTracer: vi.fn(() => noopTracer),
 		};
 
 		mockQueryEngine = {
@@ -114,6 +126,9 @@ describe("routes/query", () => {
 			await expect(
 				ask(mockClient, mockQueryEngine, "test", {}),
 			).rejects.toThrow("tenantId is required");
+			await expect(
+				ask(mockClient, mockQueryEngine, "test", {}),
+			).rejects.toBeInstanceOf(TenantRequiredError);
 		});
 
 		it("should use database from options if provided", async () => {
@@ -139,6 +154,7 @@ describe("routes/query", () => {
 				expect.any(Object),
 				"custom-db",
 				"tenant-1",
+				{ cacheTtlMs: undefined },
 			);
 		});
 
@@ -234,6 +250,107 @@ describe("routes/query", () => {
 			expect(mockClient.post).toHaveBeenCalledTimes(3); // Initial + 2 retries
 		});
 
+		it("should record the failing attempt on SQL errors", async () => {
+			mockClient.post.mockResolvedValue({
+				success: true,
+				sql: "SELECT missing FROM users",
+				params: [],
+				dialect: "postgres",
+			});
+
+			mockQueryEngine.validateAndExecute.mockRejectedValue(
+				new SqlExecutionError("column missing does not exist", "SELECT missing FROM users"),
+			);
+
+			const error = await ask(mockClient, mockQueryEngine, "test", {
+				tenantId: "tenant-1",
+				maxRetry: 1,
+			}).catch((e) => e);
+
+			expect(error).toBeInstanceOf(SqlExecutionError);
+			expect(error.attempt).toBe(2);
+		});
+
+		it("should log structured fields instead of writing to the console", async () => {
+			const logger = {
+				debug: vi.fn(),
+				info: vi.fn(),
+				warn: vi.fn(),
+				error: vi.fn(),
+			};
+			mockClient.getLogger.mockReturnValue(logger);
+			const consoleLog = vi.spyOn(console, "log");
+			mockClient.post.mockResolvedValue({
+				success: true,
+				sql: "SELECT 1",
+				params: [],
+				dialect: "postgres",
+				queryId: "query-1",
+			});
+			mockQueryEngine.validateAndExecute
+				.mockRejectedValueOnce(new Error("Syntax error"))
+				.mockResolvedValueOnce({ rows: [], fields: [], truncated: false });
+
+			await ask(mockClient, mockQueryEngine, "test", {
+				tenantId: "tenant-1",
+				maxRetry: 1,
+			});
+
+			expect(consoleLog).not.toHaveBeenCalled();
+			expect(logger.warn).toHaveBeenCalledWith(
+				expect.objectContaining({
+					tenantId: "tenant-1",
+					sessionId: expect.any(String),
+					queryId: "query-1",
+					attempt: 1,
+				}),
+				"SQL execution failed, retrying",
+			);
+			expect(logger.info).toHaveBeenCalledWith(
+				expect.objectContaining({
+					attempt: 2,
+					rowCount: 0,
+					durationMs: expect.any(Number),
+				}),
+				"SQL executed",
+			);
+			consoleLog.mockRestore();
+		});
+
+		it("should report a span per phase", async () => {
+			const { tracer, spans } = recordingTracer();
+			mockClient.getTracer.mockReturnValue(tracer);
+			mockClient.post
+				.mockResolvedValueOnce({
+					success: true,
+					sql: "SELECT 1",
+					params: [],
+					dialect: "postgres",
+				})
+				.mockResolvedValueOnce({ chart: { mark: "bar" }, notes: null });
+			mockQueryEngine.validateAndExecute.mockResolvedValue({
+				rows: [{ value: 1 }],
+				fields: ["value"],
+			});
+
+			await ask(mockClient, mockQueryEngine, "test", { tenantId: "tenant-1" });
+
+			expect(spans.map((span) => span.name)).toEqual([
+				"querypanel.ask",
+				"querypanel.sql.generate",
+				"querypanel.chart.generate",
+			]);
+			expect(spans[1]?.options.attributes).toMatchObject({
+				"querypanel.attempt": 1,
+				"db.system": "postgres",
+				"db.namespace": "default-db",
+			});
+			expect(spans[0]?.span.setAttribute).toHaveBeenCalledWith(
+				"querypanel.attempts",
+				1,
+			);
+		});
+
 		it("should not generate chart when no rows returned", async () => {
 			mockClient.post.mockResolvedValueOnce({
 				success: true,
@@ -256,6 +373,30 @@ describe("routes/query", () => {
 			expect(mockClient.post).toHaveBeenCalledTimes(1); // No chart request
 		});
 
+		it("should reject when the chart endpoint fails", async () => {
+			const unauthorized = new QueryPanelApiError("Unauthorized", { status: 401 });
+			mockClient.post
+				.mockResolvedValueOnce({
+					success: true,
+					sql: "SELECT id FROM users",
+					params: [],
+					dialect: "postgres",
+				})
+				.mockRejectedValueOnce(unauthorized);
+			mockQueryEngine.validateAndExecute.mockResolvedValue({
+				rows: [{ id: 1 }],
+				fields: ["id"],
+			});
+
+			await expect(
+				ask(mockClient, mockQueryEngine as any, "test", {
+					tenantId: "tenant-1",
+					maxRetry: 2,
+				}),
+			).rejects.toBe(unauthorized);
+			expect(mockClient.post).toHaveBeenCalledTimes(2);
+		});
+
 		it("should pass through query context", async () => {
 			mockClient.post.mockResolvedValueOnce({
 				success: true,
@@ -318,6 +459,160 @@ describe("routes/query", () => {
 		});
 	});
 
+	describe("askStream", () => {
+		const collect = async (stream: AsyncIterable<{ type: string }>) => {
+			const events: any[] = [];
+			for await (const event of stream) events.push(event);
+			return events;
+		};
+
+		it("should yield SQL and rows before the chart", async () => {
+			mockClient.post
+				.mockResolvedValueOnce({
+					success: true,
+					sql: "SELECT id FROM users",
+					params: [],
+					dialect: "postgres",
+				})
+				.mockResolvedValueOnce({ chart: { mark: "bar" }, notes: null });
+			mockQueryEngine.validateAndExecute.mockResolvedValue({
+				rows: [{ id: 1 }],
+				fields: ["id"],
+				truncated: false,
+			});
+
+			const events = await collect(
+				askStream(mockClient as any, mockQueryEngine as any, "test", {
+					tenantId: "tenant-1",
+				}),
+			);
+
+			expect(events.map((event) => event.type)).toEqual([
+				"sql_generated",
+				"rows_ready",
+				"chart_ready",
+				"done",
+			]);
+			expect(events[0]).toMatchObject({
+				attempt: 1,
+				sql: "SELECT id FROM users",
+				database: "default-db",
+			});
+			expect(events[1]).toMatchObject({ rows: [{ id: 1 }], fields: ["id"] });
+			expect(events[2].chart.vegaLiteSpec).toMatchObject({ mark: "bar" });
+			expect(events[3].response).toMatchObject({
+				sql: "SELECT id FROM users",
+				attempts: 1,
+			});
+		});
+
+		it("should report chart failures without retrying the SQL", async () => {
+			mockClient.post
+				.mockResolvedValueOnce({
+					success: true,
+					sql: "SELECT id FROM users",
+					params: [],
+					dialect: "postgres",
+				})
+				.mockRejectedValueOnce(new Error("chart service unavailable"));
+			mockQueryEngine.validateAndExecute.mockResolvedValue({
+				rows: [{ id: 1 }],
+				fields: ["id"],
+				truncated: false,
+			});
+
+			const events = await collect(
+				askStream(mockClient as any, mockQueryEngine as any, "test", {
+					tenantId: "tenant-1",
+					maxRetry: 2,
+				}),
+			);
+
+			expect(events.map((event) => event.type)).toEqual([
+				"sql_generated",
+				"rows_ready",
+				"chart_failed",
+				"done",
+			]);
+			expect(events[2].error).toBeInstanceOf(Error);
+			expect(events[3].response).toMatchObject({
+				rows: [{ id: 1 }],
+				attempts: 1,
+				chart: { notes: "Chart generation failed: chart service unavailable" },
+			});
+			expect(mockClient.post).toHaveBeenCalledTimes(2);
+		});
+
+		it("should report failed attempts and retries", async () => {
+			mockClient.post
+				.mockResolvedValueOnce({
+					success: true,
+					sql: "SELECT nme FROM users",
+					params: [],
+					dialect: "postgres",
+				})
+				.mockResolvedValueOnce({
+					success: true,
+					sql: "SELECT name FROM users",
+					params: [],
+					dialect: "postgres",
+				});
+			mockQueryEngine.validateAndExecute
+				.mockRejectedValueOnce(new Error("column nme does not exist"))
+				.mockResolvedValueOnce({ rows: [], fields: [] });
+
+			const events = await collect(
+				askStream(mockClient as any, mockQueryEngine as any, "test", {
+					tenantId: "tenant-1",
+					maxRetry: 1,
+				}),
+			);
+
+			expect(events.map((event) => event.type)).toEqual([
+				"sql_generated",
+				"validation_failed",
+				"retrying",
+				"sql_generated",
+				"rows_ready",
+				"chart_ready",
+				"done",
+			]);
+			expect(events[1]).toMatchObject({
+				attempt: 1,
+				sql: "SELECT nme FROM users",
+			});
+			expect(events[2]).toEqual({
+				type: "retrying",
+				attempt: 2,
+				lastError: "column nme does not exist",
+				previousSql: "SELECT nme FROM users",
+			});
+		});
+
+		it("should throw after the last failed attempt", async () => {
+			mockClient.post.mockResolvedValue({
+				success: true,
+				sql: "SELECT 1",
+				params: [],
+				dialect: "postgres",
+			});
+			mockQueryEngine.validateAndExecute.mockRejectedValue(new Error("boom"));
+
+			const events: string[] = [];
+			await expect(async () => {
+				for await (const event of askStream(
+					mockClient as any,
+					mockQueryEngine as any,
+					"test",
+					{ tenantId: "tenant-1" },
+				)) {
+					events.push(event.type);
+				}
+			}).rejects.toThrow("boom");
+			expect(events).toEqual(["sql_generated", "validation_failed"]);
+		});
+	});
+
 	describe("anonymizeResults", () => {
 		it("should anonymize row values by type", () => {
 			const rows = [
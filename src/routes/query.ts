@@ -1,6 +1,17 @@
 import crypto from 'node:crypto';
 import type { ApiClient } from "../core/client";
-import type { ParamRecord, QueryEngine } from "../core/query-engine";
+import {
+	DatabaseNotAttachedError,
+	SqlExecutionError,
+	SqlValidationError,
+	TenantRequiredError,
+} from "../core/errors";
+import type {
+	DatabaseExecutionResult,
+	ParamRecord,
+	QueryEngine,
+} from "../core/query-engine";
+import { withSpan } from "../core/tracing";
 import type { VizSpec } from "../types/vizspec";
 
 export interface ContextDocument {
@@ -17,6 +28,18 @@ export interface ChartEnvelope {
 	notes: string | null;
 }
 
+/**
+ * A previous question and its answer, sent as context for follow-up questions.
+ * Only SQL and chart specs are kept, never result rows.
+ */
+export interface ConversationTurn {
+	question: string;
+	sql: string;
+	rationale?: string;
+	queryId?: string;
+	chart?: ChartEnvelope;
+}
+
 export interface AskOptions {
 	tenantId?: string;
 	userId?: string;
@@ -27,6 +50,12 @@ export interface AskOptions {
 	maxRetry?: number;
 	chartMaxRetries?: number;
 	chartType?: 'vega-lite' | 'vizspec'; // Choose chart generation method
+	/** Reuse a session across calls (generated per call when omitted) */
+	sessionId?: string;
+	/** Earlier turns of the conversation, oldest first */
+	history?: ConversationTurn[];
+	/** How long the query result is cached, when a result cache is configured. 0 bypasses it. */
+	cacheTtlMs?: number;
 }
 
 export interface AskResponse {
@@ -38,12 +67,45 @@ export interface AskResponse {
 	queryId?: string;
 	rows: Array<Record<string, unknown>>;
 	fields: string[];
+	/** True when rows were cut at the database's maxRows */
+	truncated?: boolean;
 	chart: ChartEnvelope;
 	context?: ContextDocument[];
 	attempts?: number;
 	target_db?: string;
 }
 
+/**
+ * Progress events yielded by askStream(), in order. `sql_generated` and
+ * `validation_failed` repeat once per attempt; `chart_failed` replaces
+ * `chart_ready` when chart generation fails, without retrying the SQL; `done`
+ * carries the same response ask() resolves with.
+ */
+export type AskStreamEvent =
+	| {
+			type: "sql_generated";
+			attempt: number;
+			sql: string;
+			params: ParamRecord;
+			paramMetadata: Array<Record<string, unknown>>;
+			rationale?: string;
+			dialect: string;
+			queryId?: string;
+			database: string;
+	  }
+	| { type: "validation_failed"; attempt: number; sql: string; error: unknown }
+	| { type: "retrying"; attempt: number; lastError: string; previousSql: string }
+	| {
+			type: "rows_ready";
+			attempt: number;
+			rows: Array<Record<string, unknown>>;
+			fields: string[];
+			truncated?: boolean;
+	  }
+	| { type: "chart_ready"; chart: ChartEnvelope }
+	| { type: "chart_failed"; attempt: number; error: unknown }
+	| { type: "done"; response: AskResponse };
+
 interface ServerQueryResponse {
 	success: boolean;
 	sql: string;
@@ -77,8 +139,57 @@ export async function ask(
 	options: AskOptions,
 	signal?: AbortSignal,
 ): Promise<AskResponse> {
+	return await withSpan(
+		client.getTracer(),
+		"querypanel.ask",
+		{ "db.namespace": options.database },
+		async (span) => {
+			for await (const event of askStream(
+				client,
+				queryEngine,
+				question,
+				options,
+				signal,
+			)) {
+				// Only askStream() callers can render rows without a chart
+				if (event.type === "chart_failed") throw event.error;
+				if (event.type === "done") {
+					span.setAttribute(
+						"querypanel.attempts",
+						event.response.attempts ?? 1,
+					);
+					return event.response;
+				}
+			}
+
+			// This should never be reached, but TypeScript needs it
+			throw new Error("Unexpected error in ask retry loop");
+		},
+	);
+}
+
+/**
+ * Same flow as ask(), yielding progress events so the SQL and rows can be
+ * shown before the chart is generated
+ */
+export async function* askStream(
+	client: ApiClient,
+	queryEngine: QueryEngine,
+	question: string,
+	options: AskOptions,
+	signal?: AbortSignal,
+): AsyncGenerator<AskStreamEvent, void, undefined> {
 	const tenantId = resolveTenantId(client, options.tenantId);
-	const sessionId = crypto.randomUUID();
+	const sessionId = options.sessionId ?? crypto.randomUUID();
+	const logger = client.getLogger();
+	const tracer = client.getTracer();
+	const conversationHistory = options.history?.map((turn) => ({
+		question: turn.question,
+		sql: turn.sql,
+		rationale: turn.rationale,
+		query_id: turn.queryId,
+		chart_spec: turn.chart?.vizSpec ?? turn.chart?.vegaLiteSpec ?? null,
+	}));
 	const maxRetry = options.maxRetry ?? 0;
 	let attempt = 0;
 	let lastError: string | undefined = options.lastError;
@@ -86,8 +197,6 @@ export async function ask(
 
 	while (attempt <= maxRetry) {
 		// Step 1: Get SQL from backend
-		console.log({ lastError, previousSql });
-
 		const databaseName = options.database ?? queryEngine.getDefaultDatabase();
 		const metadata = databaseName
 			? queryEngine.getDatabaseMetadata(databaseName)
@@ -103,22 +212,37 @@ export async function ask(
 			};
 		}
 
-		const queryResponse = await client.post<ServerQueryResponse>(
-			"/query",
+		const generationStartedAt = Date.now();
+		const queryResponse = await withSpan(
+			tracer,
+			"querypanel.sql.generate",
 			{
-				question,
-				...(lastError ? { last_error: lastError } : {}),
-				...(previousSql ? { previous_sql: previousSql } : {}),
-				...(options.maxRetry ? { max_retry: options.maxRetry } : {}),
-				...(tenantSettings ? { tenant_settings: tenantSettings } : {}),
-				...(databaseName ? { database: databaseName } : {}),
-				...(metadata?.dialect ? { dialect: metadata.dialect } : {}),
+				"querypanel.attempt": attempt + 1,
+				"querypanel.retry": attempt > 0,
+				"db.system": metadata?.dialect,
+				"db.namespace": databaseName,
 			},
-			tenantId,
-			options.userId,
-			options.scopes,
-			signal,
-			sessionId,
+			() =>
+				client.post<ServerQueryResponse>(
+					"/query",
+					{
+						question,
+						...(lastError ? { last_error: lastError } : {}),
+						...(previousSql ? { previous_sql: previousSql } : {}),
+						...(options.maxRetry ? { max_retry: options.maxRetry } : {}),
+						...(tenantSettings ? { tenant_settings: tenantSettings } : {}),
+						...(databaseName ? { database: databaseName } : {}),
+						...(metadata?.dialect ? { dialect: metadata.dialect } : {}),
+						...(conversationHistory?.length
+							? { conversation_history: conversationHistory }
+							: {}),
+					},
+					tenantId,
+					options.userId,
+					options.scopes,
+					signal,
+					sessionId,
+				),
 		);
 
 		const dbName =
@@ -126,53 +250,145 @@ export async function ask(
 			options.database ??
 			queryEngine.getDefaultDatabase();
 		if (!dbName) {
-			throw new Error(
+			throw new DatabaseNotAttachedError(
 				"No database attached. Call attachPostgres/attachClickhouse first.",
 			);
 		}
 
+		const logFields = {
+			tenantId,
+			sessionId,
+			queryId: queryResponse.queryId,
+			database: dbName,
+			attempt: attempt + 1,
+		};
+		logger.debug(
+			{ ...logFields, durationMs: Date.now() - generationStartedAt },
+			"SQL generated",
+		);
+
 		// Step 2: Map and validate parameters
 		const paramMetadata = Array.isArray(queryResponse.params)
 			? queryResponse.params
 			: [];
 		const paramValues = queryEngine.mapGeneratedParams(paramMetadata);
+		yield {
+			type: "sql_generated",
+			attempt: attempt + 1,
+			sql: queryResponse.sql,
+			params: paramValues,
+			paramMetadata,
+			rationale: queryResponse.rationale,
+			dialect: queryResponse.dialect,
+			queryId: queryResponse.queryId,
+			database: dbName,
+		};
 
 		// Step 3: Execute SQL with tenant isolation
+		const executionStartedAt = Date.now();
+		let execution: DatabaseExecutionResult;
 		try {
-			const execution = await queryEngine.validateAndExecute(
+			execution = await queryEngine.validateAndExecute(
 				queryResponse.sql,
 				paramValues,
 				dbName,
 				tenantId,
+				{ cacheTtlMs: options.cacheTtlMs },
 			);
-			const rows = execution.rows ?? [];
+		} catch (error) {
+			attempt++;
+			if (
+				error instanceof SqlValidationError ||
+				error instanceof SqlExecutionError
+			) {
+				error.attempt = attempt;
+			}
+			yield {
+				type: "validation_failed",
+				attempt,
+				sql: queryResponse.sql,
+				error,
+			};
+
+			// If we've exhausted all retries, throw the error
+			if (attempt > maxRetry) {
+				throw error;
+			}
+
+			// Save error and SQL for next retry
+			lastError = error instanceof Error ? error.message : String(error);
+			previousSql = queryResponse.sql;
 
-			// Step 4: Generate chart if we have data
-			const chartType = options.chartType ?? 'vega-lite'; // Default to vega-lite for backward compatibility
-			let chart: ChartEnvelope = {
-				specType: chartType,
-				notes: rows.length === 0 ? "Query returned no rows." : null,
+			// Log retry attempt
+			logger.warn(
+				{ ...logFields, maxAttempts: maxRetry + 1, err: error },
+				"SQL execution failed, retrying",
+			);
+			yield {
+				type: "retrying",
+				attempt: attempt + 1,
+				lastError,
+				previousSql,
 			};
+			continue;
+		}
+		const rows = execution.rows ?? [];
+		logger.info(
+			{
+				...logFields,
+				rowCount: rows.length,
+				truncated: execution.truncated,
+				durationMs: Date.now() - executionStartedAt,
+			},
+			"SQL executed",
+		);
+		yield {
+			type: "rows_ready",
+			attempt: attempt + 1,
+			rows,
+			fields: execution.fields,
+			truncated: execution.truncated,
+		};
+
+		// Step 4: Generate chart if we have data
+		const chartType = options.chartType ?? 'vega-lite'; // Default to vega-lite for backward compatibility
+		let chart: ChartEnvelope = {
+			specType: chartType,
+			notes: rows.length === 0 ? "Query returned no rows." : null,
+		};
 
+		// Chart failures keep the rows and do not retry the SQL
+		let chartFailed = false;
+		try {
 			if (rows.length > 0) {
 				if (chartType === 'vizspec') {
 					// Use new VizSpec generation
-					const vizspecResponse = await client.post<ServerVizSpecResponse>(
-						"/vizspec",
+					const vizspecResponse = await withSpan(
+						tracer,
+						"querypanel.chart.generate",
 						{
-							question,
-							sql: queryResponse.sql,
-							rationale: queryResponse.rationale,
-							fields: execution.fields,
-							rows: anonymizeResults(rows),
-							max_retries: options.chartMaxRetries ?? 3,
-							query_id: queryResponse.queryId,
+							"querypanel.attempt": attempt + 1,
+							"querypanel.chart_type": "vizspec",
+							"querypanel.row_count": rows.length,
 						},
-						tenantId,
-						options.userId,
-						options.scopes,
-						signal,
-						sessionId,
+						() =>
+							client.post<ServerVizSpecResponse>(
+								"/vizspec",
+								{
+									question,
+									sql: queryResponse.sql,
+									rationale: queryResponse.rationale,
+									fields: execution.fields,
+									rows: anonymizeResults(rows),
+									max_retries: options.chartMaxRetries ?? 3,
+									query_id: queryResponse.queryId,
+								},
+								tenantId,
+								options.userId,
+								options.scopes,
+								signal,
+								sessionId,
+							),
 					);
 
 					chart = {
@@ -182,22 +398,32 @@ export async function ask(
 					};
 				} else {
 					// Use traditional Vega-Lite chart generation
-					const chartResponse = await client.post<ServerChartResponse>(
-						"/chart",
+					const chartResponse = await withSpan(
+						tracer,
+						"querypanel.chart.generate",
 						{
-							question,
-							sql: queryResponse.sql,
-							rationale: queryResponse.rationale,
-							fields: execution.fields,
-							rows: anonymizeResults(rows),
-							max_retries: options.chartMaxRetries ?? 3,
-							query_id: queryResponse.queryId,
+							"querypanel.attempt": attempt + 1,
+							"querypanel.chart_type": "vega-lite",
+							"querypanel.row_count": rows.length,
 						},
-						tenantId,
-						options.userId,
-						options.scopes,
-						signal,
-						sessionId,
+						() =>
+							client.post<ServerChartResponse>(
+								"/chart",
+								{
+									question,
+									sql: queryResponse.sql,
+									rationale: queryResponse.rationale,
+									fields: execution.fields,
+									rows: anonymizeResults(rows),
+									max_retries: options.chartMaxRetries ?? 3,
+									query_id: queryResponse.queryId,
+								},
+								tenantId,
+								options.userId,
+								options.scopes,
+								signal,
+								sessionId,
+							),
 					);
 
 					chart = {
@@ -212,8 +438,21 @@ export async function ask(
 					};
 				}
 			}
+		} catch (error) {
+			if (signal?.aborted) throw error;
+			logger.warn({ ...logFields, err: error }, "Chart generation failed");
+			chartFailed = true;
+			const message = error instanceof Error ? error.message : String(error);
+			chart = { specType: chartType, notes: `Chart generation failed: ${message}` };
+			yield { type: "chart_failed", attempt: attempt + 1, error };
+		}
+		if (!chartFailed) {
+			yield { type: "chart_ready", chart };
+		}
 
-			return {
+		yield {
+			type: "done",
+			response: {
 				sql: queryResponse.sql,
 				params: paramValues,
 				paramMetadata,
@@ -222,40 +461,21 @@ export async function ask(
 				queryId: queryResponse.queryId,
 				rows,
 				fields: execution.fields,
+				truncated: execution.truncated,
 				chart,
 				context: queryResponse.context,
 				attempts: attempt + 1,
 				target_db: dbName,
-			};
-		} catch (error) {
-			attempt++;
-
-			// If we've exhausted all retries, throw the error
-			if (attempt > maxRetry) {
-				throw error;
-			}
-
-			// Save error and SQL for next retry
-			lastError = error instanceof Error ? error.message : String(error);
-			previousSql = queryResponse.sql;
-
-			// Log retry attempt
-			console.warn(
-				`SQL execution failed (attempt ${attempt}/${maxRetry + 1}): ${lastError}. Retrying...`,
-			);
-		}
+			},
+		};
+		return;
 	}
-
-	// This should never be reached, but TypeScript needs it
-	throw new Error("Unexpected error in ask retry loop");
 }
 
 function resolveTenantId(client: ApiClient, tenantId?: string): string {
 	const resolved = tenantId ?? client.getDefaultTenantId();
 	if (!resolved) {
-		throw new Error(
-			"tenantId is required. Provide it per request or via defaultTenantId option.",
-		);
+		throw new TenantRequiredError();
 	}
 	return resolved;
 }
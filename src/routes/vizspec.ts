@@ -1,5 +1,6 @@
 import crypto from 'node:crypto';
 import type { ApiClient } from "../core/client";
+import { TenantRequiredError } from "../core/errors";
 import type { VizSpec } from "../types/vizspec";
 
 export interface VizSpecGenerateInput {
@@ -61,9 +62,7 @@ export async function generateVizSpec(
 function resolveTenantId(client: ApiClient, tenantId?: string): string {
   const resolved = tenantId ?? client.getDefaultTenantId();
   if (!resolved) {
-    throw new Error(
-      "tenantId is required. Provide it per request or via defaultTenantId option.",
-    );
+    throw new TenantRequiredError();
   }
   return resolved;
 }
@@ -0,0 +1,193 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	applySchemaAnnotations,
+	loadSchemaAnnotations,
+	parseSchemaAnnotations,
+} from "./annotations";
+import type { SchemaIntrospection } from "./types";
+
+const introspection = (): SchemaIntrospection => ({
+	db: { kind: "postgres", name: "shop" },
+	tables: [
+		{
+			name: "orders",
+			schema: "public",
+			type: "table",
+			comment: "orders table",
+			columns: [
+				{ name: "amount", type: "numeric", isPrimaryKey: false },
+				{ name: "created_at", type: "timestamp", isPrimaryKey: false },
+				{ name: "internal_notes", type: "text", isPrimaryKey: false },
+			],
+		},
+		{
+			name: "audit_log",
+			schema: "public",
+			type: "table",
+			columns: [{ name: "id", type: "integer", isPrimaryKey: true }],
+		},
+	],
+	introspectedAt: "2025-01-01T00:00:00Z",
+});
+
+describe("applySchemaAnnotations", () => {
+	it("should override descriptions and add synonyms, units and date column", () => {
+		const result = applySchemaAnnotations(introspection(), {
+			tables: {
+				orders: {
+					description: "One row per checkout",
+					synonyms: ["purchases"],
+					preferredDateColumn: "created_at",
+					columns: {
+						amount: {
+							description: "Order total incl. VAT",
+							synonyms: ["total"],
+							unit: "EUR",
+						},
+					},
+				},
+			},
+		});
+
+		const orders = result.tables[0];
+		expect(orders).toMatchObject({
+			comment: "One row per checkout",
+			synonyms: ["purchases"],
+			preferredDateColumn: "created_at",
+		});
+		expect(orders?.columns[0]).toEqual({
+			name: "amount",
+			type: "numeric",
+			isPrimaryKey: false,
+			comment: "Order total incl. VAT",
+			synonyms: ["total"],
+			unit: "EUR",
+		});
+	});
+
+	it("should drop hidden tables and columns without mutating the input", () => {
+		const original = introspection();
+		const result = applySchemaAnnotations(original, {
+			tables: {
+				"public.audit_log": { hidden: true },
+				orders: { columns: { internal_notes: { hidden: true } } },
+			},
+		});
+
+		expect(result.tables.map((table) => table.name)).toEqual(["orders"]);
+		expect(result.tables[0]?.columns.map((column) => column.name)).toEqual([
+			"amount",
+			"created_at",
+		]);
+		expect(original.tables).toHaveLength(2);
+		expect(original.tables[0]?.columns).toHaveLength(3);
+	});
+
+	it("should prefer schema-qualified keys over bare table names", () => {
+		const result = applySchemaAnnotations(introspection(), {
+			tables: {
+				orders: { description: "bare" },
+				"public.orders": { description: "qualified" },
+			},
+		});
+
+		expect(result.tables[0]?.comment).toBe("qualified");
+	});
+
+	it("should attach metrics and glossary", () => {
+		const result = applySchemaAnnotations(introspection(), {
+			metrics: [
+				{
+					name: "revenue",
+					table: "orders",
+					expression: "SUM(amount)",
+					filter: "status = 'paid'",
+				},
+			],
+			glossary: { churned: "No order in the last 90 days" },
+		});
+
+		expect(result.metrics?.[0]?.name).toBe("revenue");
+		expect(result.glossary).toEqual({ churned: "No order in the last 90 days" });
+	});
+});
+
+describe("parseSchemaAnnotations", () => {
+	it("should accept a valid document", () => {
+		const value = {
+			tables: { orders: { columns: { amount: { unit: "EUR" } } } },
+			metrics: [{ name: "revenue", table: "orders", expression: "SUM(amount)" }],
+		};
+
+		expect(parseSchemaAnnotations(value)).toEqual(value);
+	});
+
+	it("should drop unknown fields", () => {
+		expect(
+			parseSchemaAnnotations({
+				tables: { orders: { description: "Orders", owner: "sales" } },
+				version: 2,
+			}),
+		).toEqual({ tables: { orders: { description: "Orders" } } });
+	});
+
+	it("should name the invalid field", () => {
+		expect(() =>
+			parseSchemaAnnotations({
+				tables: { orders: { columns: { amount: { hidden: "yes" } } } },
+			}),
+		).toThrow("tables.orders.columns.amount.hidden must be a boolean");
+		expect(() =>
+			parseSchemaAnnotations({ metrics: [{ name: "revenue", table: "orders" }] }),
+		).toThrow("metrics[0].expression must be a string");
+		expect(() => parseSchemaAnnotations([])).toThrow(
+			"annotations must be an object",
+		);
+	});
+});
+
+describe("loadSchemaAnnotations", () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "qp-annotations-"));
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("should load JSON files", async () => {
+		const path = join(dir, "annotations.json");
+		await writeFile(path, JSON.stringify({ glossary: { aov: "Average order value" } }));
+
+		await expect(loadSchemaAnnotations(path)).resolves.toEqual({
+			glossary: { aov: "Average order value" },
+		});
+	});
+
+	it("should require a parser for YAML files", async () => {
+		const path = join(dir, "annotations.yaml");
+		await writeFile(path, "glossary:\n  aov: Average order value\n");
+
+		await expect(loadSchemaAnnotations(path)).rejects.toThrow(
+			"pass a YAML parser",
+		);
+		const parse = () => ({ glossary: { aov: "Average order value" } });
+		await expect(loadSchemaAnnotations(path, { parse })).resolves.toEqual({
+			glossary: { aov: "Average order value" },
+		});
+	});
+
+	it("should report the file when validation fails", async () => {
+		const path = join(dir, "annotations.json");
+		await writeFile(path, JSON.stringify({ tables: { orders: { synonyms: "x" } } }));
+
+		await expect(loadSchemaAnnotations(path)).rejects.toThrow(
+			`Invalid schema annotations in ${path}: tables.orders.synonyms must be an array of strings`,
+		);
+	});
+});
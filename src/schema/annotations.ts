@@ -0,0 +1,273 @@
+import { readFile } from "node:fs/promises";
+import type {
+	ColumnSchema,
+	MetricDefinition,
+	SchemaIntrospection,
+	TableSchema,
+} from "./types";
+
+export interface ColumnAnnotation {
+	/** Replaces the database comment */
+	description?: string;
+	synonyms?: string[];
+	/** Unit of measure, e.g. "EUR" or "ms" */
+	unit?: string;
+	/** Leave the column out of the uploaded schema. Not an access control: SQL can still reference it. */
+	hidden?: boolean;
+}
+
+export interface TableAnnotation {
+	/** Replaces the database comment */
+	description?: string;
+	synonyms?: string[];
+	/** Date column to filter on when a question ("last month") names none */
+	preferredDateColumn?: string;
+	/** Leave the table out of the uploaded schema */
+	hidden?: boolean;
+	columns?: Record<string, ColumnAnnotation>;
+}
+
+/**
+ * Descriptions and business context merged over the introspected schema
+ * before it is uploaded. Tables are keyed by bare or schema-qualified name;
+ * a qualified key wins over a bare one.
+ */
+export interface SchemaAnnotations {
+	tables?: Record<string, TableAnnotation>;
+	metrics?: MetricDefinition[];
+	/** Business terms and their definitions, e.g. { "churned": "No order in 90 days" } */
+	glossary?: Record<string, string>;
+}
+
+export interface LoadSchemaAnnotationsOptions {
+	/**
+	 * Parses the file content. Defaults to JSON.parse; pass a YAML parser
+	 * (e.g. `parse` from the `yaml` package) for .yaml files.
+	 */
+	parse?: (text: string) => unknown;
+}
+
+/**
+ * Reads and validates a schema annotations file
+ */
+export async function loadSchemaAnnotations(
+	path: string,
+	options?: LoadSchemaAnnotationsOptions,
+): Promise<SchemaAnnotations> {
+	const text = await readFile(path, "utf8");
+	if (!options?.parse && /\.ya?ml$/i.test(path)) {
+		throw new Error(
+			`Cannot parse ${path}: pass a YAML parser as the parse option`,
+		);
+	}
+	const parse = options?.parse ?? JSON.parse;
+	try {
+		return parseSchemaAnnotations(parse(text));
+	} catch (error) {
+		throw new Error(
+			`Invalid schema annotations in ${path}: ${error instanceof Error ? error.message : String(error)}`,
+			{ cause: error },
+		);
+	}
+}
+
+/**
+ * Checks the shape of parsed annotations, naming the first invalid field
+ */
+export function parseSchemaAnnotations(value: unknown): SchemaAnnotations {
+	const root = expectRecord(value, "annotations");
+	const annotations: SchemaAnnotations = {};
+
+	if (root.tables !== undefined) {
+		annotations.tables = {};
+		for (const [tableName, table] of Object.entries(
+			expectRecord(root.tables, "tables"),
+		)) {
+			annotations.tables[tableName] = parseTableAnnotation(
+				table,
+				`tables.${tableName}`,
+			);
+		}
+	}
+
+	if (root.metrics !== undefined) {
+		if (!Array.isArray(root.metrics)) {
+			throw new Error("metrics must be an array");
+		}
+		annotations.metrics = root.metrics.map((metric: unknown, index: number) =>
+			parseMetric(metric, `metrics[${index}]`),
+		);
+	}
+
+	if (root.glossary !== undefined) {
+		annotations.glossary = {};
+		for (const [term, definition] of Object.entries(
+			expectRecord(root.glossary, "glossary"),
+		)) {
+			const text = expectString(definition, `glossary.${term}`);
+			if (text !== undefined) annotations.glossary[term] = text;
+		}
+	}
+
+	return annotations;
+}
+
+/**
+ * Returns a copy of the introspection with annotations applied: descriptions
+ * replace comments, hidden tables and columns are dropped, and metrics and
+ * glossary are attached
+ */
+export function applySchemaAnnotations(
+	introspection: SchemaIntrospection,
+	annotations: SchemaAnnotations,
+): SchemaIntrospection {
+	const tables: TableSchema[] = [];
+	for (const table of introspection.tables) {
+		const annotation =
+			annotations.tables?.[`${table.schema}.${table.name}`] ??
+			annotations.tables?.[table.name];
+		if (!annotation) {
+			tables.push(table);
+			continue;
+		}
+		if (annotation.hidden) continue;
+
+		const columns: ColumnSchema[] = [];
+		for (const column of table.columns) {
+			const columnAnnotation = annotation.columns?.[column.name];
+			if (columnAnnotation?.hidden) continue;
+			columns.push(
+				columnAnnotation ? annotateColumn(column, columnAnnotation) : column,
+			);
+		}
+
+		const annotated: TableSchema = { ...table, columns };
+		if (annotation.description !== undefined) {
+			annotated.comment = annotation.description;
+		}
+		if (annotation.synonyms?.length) annotated.synonyms = annotation.synonyms;
+		if (annotation.preferredDateColumn !== undefined) {
+			annotated.preferredDateColumn = annotation.preferredDateColumn;
+		}
+		tables.push(annotated);
+	}
+
+	const result: SchemaIntrospection = { ...introspection, tables };
+	if (annotations.metrics?.length) result.metrics = annotations.metrics;
+	if (annotations.glossary && Object.keys(annotations.glossary).length > 0) {
+		result.glossary = annotations.glossary;
+	}
+	return result;
+}
+
+function annotateColumn(
+	column: ColumnSchema,
+	annotation: ColumnAnnotation,
+): ColumnSchema {
+	const annotated: ColumnSchema = { ...column };
+	if (annotation.description !== undefined) {
+		annotated.comment = annotation.description;
+	}
+	if (annotation.synonyms?.length) annotated.synonyms = annotation.synonyms;
+	if (annotation.unit !== undefined) annotated.unit = annotation.unit;
+	return annotated;
+}
+
+function parseTableAnnotation(value: unknown, path: string): TableAnnotation {
+	const table = expectRecord(value, path);
+	const annotation: TableAnnotation = {};
+	const description = expectString(table.description, `${path}.description`);
+	if (description !== undefined) annotation.description = description;
+	const synonyms = expectStringArray(table.synonyms, `${path}.synonyms`);
+	if (synonyms !== undefined) annotation.synonyms = synonyms;
+	const preferredDateColumn = expectString(
+		table.preferredDateColumn,
+		`${path}.preferredDateColumn`,
+	);
+	if (preferredDateColumn !== undefined) {
+		annotation.preferredDateColumn = preferredDateColumn;
+	}
+	const hidden = expectBoolean(table.hidden, `${path}.hidden`);
+	if (hidden !== undefined) annotation.hidden = hidden;
+
+	if (table.columns !== undefined) {
+		annotation.columns = {};
+		for (const [columnName, column] of Object.entries(
+			expectRecord(table.columns, `${path}.columns`),
+		)) {
+			annotation.columns[columnName] = parseColumnAnnotation(
+				column,
+				`${path}.columns.${columnName}`,
+			);
+		}
+	}
+	return annotation;
+}
+
+function parseColumnAnnotation(value: unknown, path: string): ColumnAnnotation {
+	const column = expectRecord(value, path);
+	const annotation: ColumnAnnotation = {};
+	const description = expectString(column.description, `${path}.description`);
+	if (description !== undefined) annotation.description = description;
+	const synonyms = expectStringArray(column.synonyms, `${path}.synonyms`);
+	if (synonyms !== undefined) annotation.synonyms = synonyms;
+	const unit = expectString(column.unit, `${path}.unit`);
+	if (unit !== undefined) annotation.unit = unit;
+	const hidden = expectBoolean(column.hidden, `${path}.hidden`);
+	if (hidden !== undefined) annotation.hidden = hidden;
+	return annotation;
+}
+
+function parseMetric(value: unknown, path: string): MetricDefinition {
+	const metric = expectRecord(value, path);
+	const required = (field: "name" | "table" | "expression"): string => {
+		const text = metric[field];
+		if (typeof text !== "string") {
+			throw new Error(`${path}.${field} must be a string`);
+		}
+		return text;
+	};
+	const definition: MetricDefinition = {
+		name: required("name"),
+		table: required("table"),
+		expression: required("expression"),
+	};
+	const filter = expectString(metric.filter, `${path}.filter`);
+	if (filter !== undefined) definition.filter = filter;
+	const description = expectString(metric.description, `${path}.description`);
+	if (description !== undefined) definition.description = description;
+	const synonyms = expectStringArray(metric.synonyms, `${path}.synonyms`);
+	if (synonyms !== undefined) definition.synonyms = synonyms;
+	const unit = expectString(metric.unit, `${path}.unit`);
+	if (unit !== undefined) definition.unit = unit;
+	return definition;
+}
+
+function expectRecord(value: unknown, path: string): Record<string, unknown> {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		throw new Error(`${path} must be an object`);
+	}
+	return value as Record<string, unknown>;
+}
+
+function expectString(value: unknown, path: string): string | undefined {
+	if (value !== undefined && typeof value !== "string") {
+		throw new Error(`${path} must be a string`);
+	}
+	return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean | undefined {
+	if (value !== undefined && typeof value !== "boolean") {
+		throw new Error(`${path} must be a boolean`);
+	}
+	return value;
+}
+
+function expectStringArray(value: unknown, path: string): string[] | undefined {
+	if (value === undefined) return undefined;
+	if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+		throw new Error(`${path} must be an array of strings`);
+	}
+	return value as string[];
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { diffSchemas, hashSchema } from "./diff";
+import type { SchemaIntrospection, TableSchema } from "./types";
+
+const table = (
+	name: string,
+	columns: Array<[string, string, string?]>,
+	comment?: string,
+): TableSchema => ({
+	name,
+	schema: "public",
+	type: "table",
+	comment,
+	columns: columns.map(([column, type, columnComment]) => ({
+		name: column,
+		type,
+		isPrimaryKey: column === "id",
+		comment: columnComment,
+	})),
+});
+
+const schema = (...tables: TableSchema[]): SchemaIntrospection => ({
+	db: { kind: "postgres", name: "shop" },
+	tables,
+	introspectedAt: "2025-01-01T00:00:00Z",
+});
+
+const orders = () =>
+	table("orders", [
+		["id", "integer"],
+		["amount", "numeric"],
+		["status", "text"],
+		["created_at", "timestamp"],
+		["customer_id", "integer"],
+	]);
+
+describe("hashSchema", () => {
+	it("should ignore table order, introspection time and sampled statistics", () => {
+		const users = table("users", [["id", "integer"]]);
+		const before = schema(orders(), users);
+		const after = schema(users, orders());
+		after.introspectedAt = "2025-06-01T00:00:00Z";
+		after.tables[1]!.rowCount = 42;
+		after.tables[1]!.columns[2]!.sampleValues = ["paid"];
+
+		expect(hashSchema(after)).toBe(hashSchema(before));
+	});
+
+	it("should change when a column changes", () => {
+		const after = schema(orders());
+		after.tables[0]!.columns[1]!.nullable = false;
+
+		expect(hashSchema(after)).not.toBe(hashSchema(schema(orders())));
+	});
+});
+
+describe("diffSchemas", () => {
+	it("should report nothing for identical schemas", () => {
+		const diff = diffSchemas(schema(orders()), schema(orders()));
+
+		expect(diff.changed).toBe(false);
+		expect(diff.previousHash).toBe(diff.hash);
+		expect(diff).toMatchObject({
+			addedTables: [],
+			removedTables: [],
+			renamedTables: [],
+			changedTables: [],
+		});
+	});
+
+	it("should report every table as added without a previous schema", () => {
+		const diff = diffSchemas(undefined, schema(orders()));
+
+		expect(diff.changed).toBe(true);
+		expect(diff.previousHash).toBeUndefined();
+		expect(diff.addedTables).toEqual(["public.orders"]);
+	});
+
+	it("should report added, removed and renamed tables", () => {
+		const renamed = orders();
+		renamed.name = "purchases";
+		const diff = diffSchemas(
+			schema(orders(), table("sessions", [["id", "uuid"]])),
+			schema(renamed, table("users", [["email", "text"]])),
+		);
+
+		expect(diff.addedTables).toEqual(["public.users"]);
+		expect(diff.removedTables).toEqual(["public.sessions"]);
+		expect(diff.renamedTables).toEqual([
+			{ from: "public.orders", to: "public.purchases" },
+		]);
+	});
+
+	it("should report column additions, removals, renames, type and comment changes", () => {
+		const before = table(
+			"orders",
+			[
+				["id", "integer"],
+				["amount", "numeric", "Order total"],
+				["state", "text"],
+				["legacy_flag", "boolean"],
+			],
+			"Orders",
+		);
+		const after = table(
+			"orders",
+			[
+				["id", "bigint"],
+				["amount", "numeric", "Total incl. VAT"],
+				["status", "text"],
+				["currency", "char(3)"],
+			],
+			"Customer orders",
+		);
+
+		expect(diffSchemas(schema(before), schema(after)).changedTables).toEqual([
+			{
+				table: "public.orders",
+				addedColumns: ["currency"],
+				removedColumns: ["legacy_flag"],
+				renamedColumns: [{ from: "state", to: "status" }],
+				typeChanges: [{ column: "id", from: "integer", to: "bigint" }],
+				commentChanges: [
+					{ from: "Orders", to: "Customer orders" },
+					{ column: "amount", from: "Order total", to: "Total incl. VAT" },
+				],
+			},
+		]);
+	});
+
+	it("should not pair unrelated columns of the same type as a rename", () => {
+		const before = table("orders", [
+			["id", "integer"],
+			["legacy_code", "text"],
+		]);
+		const after = table("orders", [
+			["id", "integer"],
+			["notes", "text"],
+		]);
+
+		expect(diffSchemas(schema(before), schema(after)).changedTables).toEqual([
+			{
+				table: "public.orders",
+				addedColumns: ["notes"],
+				removedColumns: ["legacy_code"],
+				renamedColumns: [],
+				typeChanges: [],
+				commentChanges: [],
+			},
+		]);
+	});
+});
@@ -0,0 +1,288 @@
+import crypto from "node:crypto";
+import type { ColumnSchema, SchemaIntrospection, TableSchema } from "./types";
+
+export interface SchemaRename {
+	from: string;
+	to: string;
+}
+
+export interface SchemaTypeChange {
+	column: string;
+	from: string;
+	to: string;
+}
+
+export interface SchemaCommentChange {
+	/** Omitted for the table's own comment */
+	column?: string;
+	from?: string;
+	to?: string;
+}
+
+export interface TableDiff {
+	/** `schema.name` */
+	table: string;
+	addedColumns: string[];
+	removedColumns: string[];
+	/** A removed and an added column of the same type with similar names */
+	renamedColumns: SchemaRename[];
+	typeChanges: SchemaTypeChange[];
+	commentChanges: SchemaCommentChange[];
+}
+
+/**
+ * Structural changes between two introspections. Tables are named
+ * `schema.name`. `changed` compares hashes, so it also covers changes that
+ * are not itemised (keys, nullability, relationships, annotations).
+ */
+export interface SchemaDiff {
+	hash: string;
+	previousHash?: string;
+	changed: boolean;
+	addedTables: string[];
+	removedTables: string[];
+	/** A removed and an added table sharing most of their columns */
+	renamedTables: SchemaRename[];
+	changedTables: TableDiff[];
+}
+
+/** Share of columns two tables must have in common to look renamed */
+const RENAMED_TABLE_SIMILARITY = 0.8;
+
+/** Name similarity two same-typed columns must reach to look renamed */
+const RENAMED_COLUMN_SIMILARITY = 0.5;
+
+/**
+ * Stable hash of the schema structure. Table order, introspection time and
+ * sampled statistics (row counts, sample values and bounds) do not affect it.
+ */
+export function hashSchema(introspection: SchemaIntrospection): string {
+	const tables = [...introspection.tables]
+		.sort((a, b) => compareStrings(tableKey(a), tableKey(b)))
+		.map((table) => ({
+			name: tableKey(table),
+			type: table.type,
+			comment: table.comment,
+			synonyms: table.synonyms,
+			preferredDateColumn: table.preferredDateColumn,
+			relationships: table.relationships,
+			columns: table.columns.map((column) => ({
+				name: column.name,
+				type: columnType(column),
+				isPrimaryKey: column.isPrimaryKey,
+				comment: column.comment,
+				nullable: column.nullable,
+				precision: column.precision,
+				scale: column.scale,
+				maxLength: column.maxLength,
+				enumValues: column.enumValues,
+				defaultExpression: column.defaultExpression,
+				synonyms: column.synonyms,
+				unit: column.unit,
+			})),
+		}));
+	const glossary = introspection.glossary
+		? Object.keys(introspection.glossary)
+				.sort()
+				.map((term) => [term, introspection.glossary?.[term]])
+		: undefined;
+
+	return crypto
+		.createHash("sha256")
+		.update(JSON.stringify([tables, introspection.metrics, glossary]))
+		.digest("hex");
+}
+
+/**
+ * Compares two introspections; without `previous` every table counts as added
+ */
+export function diffSchemas(
+	previous: SchemaIntrospection | undefined,
+	current: SchemaIntrospection,
+): SchemaDiff {
+	const hash = hashSchema(current);
+	const previousHash = previous ? hashSchema(previous) : undefined;
+	const previousTables = new Map(
+		(previous?.tables ?? []).map((table) => [tableKey(table), table]),
+	);
+	const currentTables = new Map(
+		current.tables.map((table) => [tableKey(table), table]),
+	);
+
+	const added = current.tables.filter(
+		(table) => !previousTables.has(tableKey(table)),
+	);
+	const removed = (previous?.tables ?? []).filter(
+		(table) => !currentTables.has(tableKey(table)),
+	);
+	const renamedTables = pairRenames(
+		removed,
+		added,
+		(from, to) => columnSimilarity(from, to) >= RENAMED_TABLE_SIMILARITY,
+	).map(([from, to]) => ({ from: tableKey(from), to: tableKey(to) }));
+	const renamedFrom = new Set(renamedTables.map((rename) => rename.from));
+	const renamedTo = new Set(renamedTables.map((rename) => rename.to));
+
+	const changedTables: TableDiff[] = [];
+	for (const [key, table] of currentTables) {
+		const before = previousTables.get(key);
+		if (!before) continue;
+		const tableDiff = diffTable(key, before, table);
+		if (tableDiff) changedTables.push(tableDiff);
+	}
+
+	return {
+		hash,
+		previousHash,
+		changed: hash !== previousHash,
+		addedTables: added
+			.map(tableKey)
+			.filter((key) => !renamedTo.has(key)),
+		removedTables: removed
+			.map(tableKey)
+			.filter((key) => !renamedFrom.has(key)),
+		renamedTables,
+		changedTables,
+	};
+}
+
+function diffTable(
+	key: string,
+	before: TableSchema,
+	after: TableSchema,
+): TableDiff | undefined {
+	const beforeColumns = new Map(
+		before.columns.map((column) => [column.name, column]),
+	);
+	const afterColumns = new Map(
+		after.columns.map((column) => [column.name, column]),
+	);
+	const added = after.columns.filter((column) => !beforeColumns.has(column.name));
+	const removed = before.columns.filter(
+		(column) => !afterColumns.has(column.name),
+	);
+	const renamed = pairRenames(
+		removed,
+		added,
+		(from, to) =>
+			columnType(from) === columnType(to) &&
+			nameSimilarity(from.name, to.name) >= RENAMED_COLUMN_SIMILARITY,
+	);
+
+	const typeChanges: SchemaTypeChange[] = [];
+	const commentChanges: SchemaCommentChange[] = [];
+	if ((before.comment ?? "") !== (after.comment ?? "")) {
+		commentChanges.push({ from: before.comment, to: after.comment });
+	}
+	for (const column of after.columns) {
+		const previous = beforeColumns.get(column.name);
+		if (!previous) continue;
+		if (columnType(previous) !== columnType(column)) {
+			typeChanges.push({
+				column: column.name,
+				from: columnType(previous),
+				to: columnType(column),
+			});
+		}
+		if ((previous.comment ?? "") !== (column.comment ?? "")) {
+			commentChanges.push({
+				column: column.name,
+				from: previous.comment,
+				to: column.comment,
+			});
+		}
+	}
+
+	const renamedFrom = new Set(renamed.map(([from]) => from));
+	const renamedTo = new Set(renamed.map(([, to]) => to));
+	const tableDiff: TableDiff = {
+		table: key,
+		addedColumns: added
+			.filter((column) => !renamedTo.has(column))
+			.map((column) => column.name),
+		removedColumns: removed
+			.filter((column) => !renamedFrom.has(column))
+			.map((column) => column.name),
+		renamedColumns: renamed.map(([from, to]) => ({
+			from: from.name,
+			to: to.name,
+		})),
+		typeChanges,
+		commentChanges,
+	};
+	const hasChanges =
+		tableDiff.addedColumns.length > 0 ||
+		tableDiff.removedColumns.length > 0 ||
+		tableDiff.renamedColumns.length > 0 ||
+		typeChanges.length > 0 ||
+		commentChanges.length > 0;
+	return hasChanges ? tableDiff : undefined;
+}
+
+/**
+ * Pairs each removed item with the first unpaired added item that matches
+ */
+function pairRenames<T>(
+	removed: T[],
+	added: T[],
+	matches: (from: T, to: T) => boolean,
+): Array<[T, T]> {
+	const available = [...added];
+	const pairs: Array<[T, T]> = [];
+	for (const from of removed) {
+		const index = available.findIndex((to) => matches(from, to));
+		if (index === -1) continue;
+		pairs.push([from, available[index] as T]);
+		available.splice(index, 1);
+	}
+	return pairs;
+}
+
+/**
+ * Shared `name:type` columns over all distinct columns of both tables
+ */
+function columnSimilarity(a: TableSchema, b: TableSchema): number {
+	const signature = (column: ColumnSchema) =>
+		`${column.name}:${columnType(column)}`;
+	const left = new Set(a.columns.map(signature));
+	const right = new Set(b.columns.map(signature));
+	const shared = [...left].filter((entry) => right.has(entry)).length;
+	const total = new Set([...left, ...right]).size;
+	return total === 0 ? 0 : shared / total;
+}
+
+/**
+ * Dice coefficient over the character bigrams of two names
+ */
+function nameSimilarity(a: string, b: string): number {
+	const bigrams = (name: string) => {
+		const lower = name.toLowerCase();
+		const result: string[] = [];
+		for (let i = 0; i < lower.length - 1; i++) result.push(lower.slice(i, i + 2));
+		return result;
+	};
+	const left = bigrams(a);
+	const right = bigrams(b);
+	if (left.length === 0 || right.length === 0) return a === b ? 1 : 0;
+	const remaining = [...right];
+	let shared = 0;
+	for (const bigram of left) {
+		const index = remaining.indexOf(bigram);
+		if (index === -1) continue;
+		shared++;
+		remaining.splice(index, 1);
+	}
+	return (2 * shared) / (left.length + right.length);
+}
+
+function tableKey(table: TableSchema): string {
+	return table.schema ? `${table.schema}.${table.name}` : table.name;
+}
+
+function columnType(column: ColumnSchema): string {
+	return column.rawType ?? column.type;
+}
+
+function compareStrings(a: string, b: string): number {
+	return a < b ? -1 : a > b ? 1 : 0;
+}
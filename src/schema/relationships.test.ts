@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { inferRelationships } from "./relationships";
+import type { TableSchema } from "./types";
+
+const table = (
+	name: string,
+	columns: string[],
+	primaryKey: string[] = [],
+): TableSchema => ({
+	name,
+	schema: "analytics",
+	type: "table",
+	columns: columns.map((column) => ({
+		name: column,
+		type: "UInt64",
+		isPrimaryKey: primaryKey.includes(column),
+	})),
+});
+
+describe("inferRelationships", () => {
+	it("should link *_id columns to the matching table's key", () => {
+		const events = table("events", ["id", "user_id", "category_id", "session_id"]);
+		const tables = [
+			events,
+			table("users", ["id", "email"]),
+			table("categories", ["slug", "name"], ["slug"]),
+		];
+
+		expect(inferRelationships(events, tables)).toEqual([
+			{
+				columns: ["user_id"],
+				targetSchema: "analytics",
+				targetTable: "users",
+				targetColumns: ["id"],
+				cardinality: "many-to-one",
+				origin: "inferred",
+			},
+			{
+				columns: ["category_id"],
+				targetSchema: "analytics",
+				targetTable: "categories",
+				targetColumns: ["slug"],
+				cardinality: "many-to-one",
+				origin: "inferred",
+			},
+		]);
+	});
+
+	it("should not link a table to itself", () => {
+		const users = table("users", ["id", "user_id"]);
+
+		expect(inferRelationships(users, [users])).toEqual([]);
+	});
+});
@@ -0,0 +1,57 @@
+import type { Relationship, TableSchema } from "./types";
+
+const FOREIGN_KEY_COLUMN_REGEX = /^(.+)_id$/i;
+
+/**
+ * Guesses relationships for databases without declared foreign keys: a
+ * `<name>_id` column references the key of table `<name>` (or its plural)
+ * among the introspected tables
+ */
+export function inferRelationships(
+	table: TableSchema,
+	tables: TableSchema[],
+): Relationship[] {
+	const tablesByName = new Map(
+		tables.map((candidate) => [candidate.name.toLowerCase(), candidate]),
+	);
+	const relationships: Relationship[] = [];
+
+	for (const column of table.columns) {
+		const stem = FOREIGN_KEY_COLUMN_REGEX.exec(column.name)?.[1]?.toLowerCase();
+		if (!stem) continue;
+
+		const target = pluralCandidates(stem)
+			.map((name) => tablesByName.get(name))
+			.find((candidate) => candidate !== undefined && candidate !== table);
+		const targetColumn = target && keyColumn(target);
+		if (!target || !targetColumn) continue;
+
+		relationships.push({
+			columns: [column.name],
+			targetSchema: target.schema,
+			targetTable: target.name,
+			targetColumns: [targetColumn],
+			// Without unique constraints (ClickHouse keys only sort) assume the common case
+			cardinality: "many-to-one",
+			origin: "inferred",
+		});
+	}
+
+	return relationships;
+}
+
+function pluralCandidates(stem: string): string[] {
+	const candidates = [stem, `${stem}s`, `${stem}es`];
+	if (stem.endsWith("y")) candidates.push(`${stem.slice(0, -1)}ies`);
+	return candidates;
+}
+
+/**
+ * The target's `id` column, else its single primary key column
+ */
+function keyColumn(table: TableSchema): string | undefined {
+	const id = table.columns.find((column) => column.name.toLowerCase() === "id");
+	if (id) return id.name;
+	const primaryKey = table.columns.filter((column) => column.isPrimaryKey);
+	return primaryKey.length === 1 ? primaryKey[0]?.name : undefined;
+}
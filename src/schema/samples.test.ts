@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from "vitest";
+import { silentLogger } from "../core/logger";
+import { collectSampleValues } from "./samples";
+import type { SchemaIntrospection } from "./types";
+
+const column = (name: string, type: string, isPrimaryKey = false) => ({
+	name,
+	type,
+	isPrimaryKey,
+});
+
+function mockQueryEngine(metadata: Record<string, unknown> = {}) {
+	const adapter = {
+		execute: vi.fn(async () => ({
+			rows: [
+				{ schema_name: "public", table_name: "orders", row_estimate: 41.6 },
+				{ schema_name: "public", table_name: "never_analyzed", row_estimate: -1 },
+			],
+		})),
+	};
+	return {
+		adapter,
+		getDatabaseMetadata: vi.fn(() => ({
+			name: "analytics",
+			dialect: "postgres",
+			...metadata,
+		})),
+		getDatabase: vi.fn(() => adapter),
+		validateAndExecute: vi.fn(async (sql: string) => {
+			if (sql.includes('"status"')) {
+				return { rows: [{ qp_value: "paid" }, { qp_value: "pending" }] };
+			}
+			if (sql.includes('"note"')) {
+				return { rows: [{ qp_value: "a" }, { qp_value: "b" }, { qp_value: "c" }] };
+			}
+			return {
+				rows: [
+					{
+						qp_min_0: 1,
+						qp_max_0: 99.5,
+						qp_min_1: new Date("2024-01-01T00:00:00Z"),
+						qp_max_1: new Date("2024-12-31T00:00:00Z"),
+					},
+				],
+			};
+		}),
+	};
+}
+
+describe("collectSampleValues", () => {
+	it("should sample categories, ranges and row counts but skip sensitive columns", async () => {
+		const queryEngine = mockQueryEngine();
+		const introspection: SchemaIntrospection = {
+			db: { kind: "postgres", name: "analytics" },
+			introspectedAt: "2025-01-01T00:00:00Z",
+			tables: [
+				{
+					name: "orders",
+					schema: "public",
+					type: "table",
+					columns: [
+						column("id", "integer", true),
+						column("customer_id", "integer"),
+						column("status", "text"),
+						column("note", "text"),
+						column("total", "numeric"),
+						column("created_at", "timestamp with time zone"),
+						column("customerEmail", "text"),
+						column("internal_code", "text"),
+					],
+				},
+			],
+		};
+
+		await collectSampleValues(
+			queryEngine as any,
+			"analytics",
+			"tenant-1",
+			introspection,
+			{ maxDistinct: 2, exclude: ["orders.internal_code"] },
+			silentLogger,
+		);
+
+		const [table] = introspection.tables;
+		const byName = Object.fromEntries(
+			table?.columns.map((c) => [c.name, c]) ?? [],
+		);
+		expect(table?.rowCount).toBe(42);
+		expect(byName.status?.sampleValues).toEqual(["paid", "pending"]);
+		expect(byName.note?.sampleValues).toBeUndefined();
+		expect(byName.total).toMatchObject({
+			sampleMinValue: 1,
+			sampleMaxValue: 99.5,
+		});
+		expect(byName.created_at).toMatchObject({
+			sampleMinValue: "2024-01-01T00:00:00.000Z",
+			sampleMaxValue: "2024-12-31T00:00:00.000Z",
+		});
+
+		const queries = queryEngine.validateAndExecute.mock.calls.map(
+			(call) => call[0] as string,
+		);
+		expect(queries).toEqual([
+			`SELECT qp_value, COUNT(*) AS qp_count FROM (SELECT "status" AS qp_value FROM public.orders WHERE "status" IS NOT NULL LIMIT 10000) AS qp_sample GROUP BY qp_value ORDER BY qp_count DESC LIMIT 3`,
+			`SELECT qp_value, COUNT(*) AS qp_count FROM (SELECT "note" AS qp_value FROM public.orders WHERE "note" IS NOT NULL LIMIT 10000) AS qp_sample GROUP BY qp_value ORDER BY qp_count DESC LIMIT 3`,
+			`SELECT MIN(qp_c0) AS qp_min_0, MAX(qp_c0) AS qp_max_0, MIN(qp_c1) AS qp_min_1, MAX(qp_c1) AS qp_max_1 FROM (SELECT "total" AS qp_c0, "created_at" AS qp_c1 FROM public.orders LIMIT 10000) AS qp_sample`,
+		]);
+		expect(queryEngine.adapter.execute).toHaveBeenCalledWith(
+			expect.stringContaining("pg_class"),
+		);
+		for (const skipped of ['"id"', "customer_id", "customerEmail", "internal_code"]) {
+			expect(queries.some((sql) => sql.includes(skipped))).toBe(false);
+		}
+		expect(queryEngine.validateAndExecute.mock.calls[0]?.slice(1)).toEqual([
+			{},
+			"analytics",
+			"tenant-1",
+			{ cacheTtlMs: 0 },
+		]);
+	});
+
+	it("should only sample tenant-scoped tables when tenant isolation is on", async () => {
+		const queryEngine = mockQueryEngine({ tenantFieldName: "tenant_id" });
+		const introspection: SchemaIntrospection = {
+			db: { kind: "postgres", name: "analytics" },
+			introspectedAt: "2025-01-01T00:00:00Z",
+			tables: [
+				{
+					name: "orders",
+					schema: "public",
+					type: "table",
+					columns: [column("tenant_id", "text"), column("status", "text")],
+				},
+				{
+					name: "countries",
+					schema: "public",
+					type: "table",
+					columns: [column("code", "text")],
+				},
+			],
+		};
+
+		await collectSampleValues(
+			queryEngine as any,
+			"analytics",
+			"tenant-1",
+			introspection,
+			{},
+			silentLogger,
+		);
+
+		const queries = queryEngine.validateAndExecute.mock.calls.map(
+			(call) => call[0] as string,
+		);
+		expect(queries).toHaveLength(1);
+		expect(queryEngine.adapter.execute).not.toHaveBeenCalled();
+		expect(introspection.tables[0]?.rowCount).toBeUndefined();
+		expect(queries.some((sql) => sql.includes("countries"))).toBe(false);
+		expect(queries.some((sql) => sql.includes('"tenant_id"'))).toBe(false);
+	});
+});
@@ -0,0 +1,264 @@
+import type { DatabaseAdapter, DatabaseDialect } from "../adapters/types";
+import type { Logger } from "../core/logger";
+import type { QueryEngine } from "../core/query-engine";
+import type { ColumnSchema, SchemaIntrospection, TableSchema } from "./types";
+
+export interface SampleValuesOptions {
+	/** Most frequent values kept per string column. Defaults to 10. */
+	topN?: number;
+	/** String columns with more distinct values are treated as free text and skipped. Defaults to 100. */
+	maxDistinct?: number;
+	/** Columns never sampled, as `column` or `table.column` */
+	exclude?: string[];
+	/** Rows read per query for values and ranges, so large tables are never fully scanned. Defaults to 10 000. */
+	maxRows?: number;
+}
+
+const DEFAULT_TOP_N = 10;
+const DEFAULT_MAX_DISTINCT = 100;
+const DEFAULT_MAX_ROWS = 10_000;
+
+/** Planner estimates of table sizes, read from the catalog instead of counting rows */
+const ROW_ESTIMATE_QUERIES: Partial<Record<DatabaseDialect, string>> = {
+	postgres:
+		"SELECT n.nspname AS schema_name, c.relname AS table_name, c.reltuples AS row_estimate FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace WHERE c.relkind IN ('r', 'p', 'm')",
+	clickhouse:
+		"SELECT database AS schema_name, name AS table_name, total_rows AS row_estimate FROM system.tables WHERE total_rows IS NOT NULL",
+	mysql:
+		"SELECT TABLE_SCHEMA AS schema_name, TABLE_NAME AS table_name, TABLE_ROWS AS row_estimate FROM information_schema.TABLES WHERE TABLE_ROWS IS NOT NULL",
+};
+
+/**
+ * Column names that suggest personal or secret data; such columns are never
+ * sampled. Matched against snake_case words, so `userEmail` and `user_email` both hit.
+ */
+const SENSITIVE_NAME_REGEX =
+	/(^|_)(e?mail|phone|mobile|fax|ssn|social_security|passport|password|passwd|pwd|secret|token|api_key|credit_card|card_number|cc_number|cvv|iban|account_number|address|street|zip|zipcode|postal_code|postcode|birth|birthday|dob|date_of_birth|first_name|last_name|full_name|surname|ip|ip_address|national_id|tax_id|salary)(_|$)/;
+
+const NUMERIC_TYPE_REGEX =
+	/^(u?int|integer|smallint|bigint|tinyint|mediumint|hugeint|decimal|numeric|real|double|float|money|number)/i;
+const TEMPORAL_TYPE_REGEX = /^(date|time|timestamp)/i;
+const STRING_TYPE_REGEX =
+	/^(text|varchar|nvarchar|character|char|bpchar|string|fixedstring|citext|lowcardinality\(string)/i;
+
+/**
+ * Adds approximate row counts, top values of low-cardinality string columns
+ * and sample bounds of numeric and temporal columns to the introspection, in
+ * place.
+ *
+ * Row counts are catalog estimates (Postgres, ClickHouse and MySQL only).
+ * Values and bounds are computed over at most `maxRows` rows per query, so
+ * they describe a sample rather than the whole table: the bounds are the
+ * smallest and largest sampled values, not the column's true min/max. These
+ * queries run through the QueryEngine, so tenant isolation, read-only checks and
+ * concurrency limits apply. With tenant isolation on, tables without the
+ * tenant column are skipped, the tenant column itself is never sampled, and
+ * row counts are left out because catalog estimates span every tenant.
+ */
+export async function collectSampleValues(
+	queryEngine: QueryEngine,
+	databaseName: string,
+	tenantId: string,
+	introspection: SchemaIntrospection,
+	options: SampleValuesOptions,
+	logger: Logger,
+): Promise<void> {
+	const metadata = queryEngine.getDatabaseMetadata(databaseName);
+	const dialect =
+		metadata?.dialect ?? queryEngine.getDatabase(databaseName).getDialect();
+	const tenantField =
+		metadata?.tenantFieldName && metadata.enforceTenantIsolation !== false
+			? metadata.tenantFieldName
+			: undefined;
+	const excluded = new Set(
+		(options.exclude ?? []).map((entry) => entry.toLowerCase()),
+	);
+	const topN = options.topN ?? DEFAULT_TOP_N;
+	const maxDistinct = options.maxDistinct ?? DEFAULT_MAX_DISTINCT;
+	const maxRows = options.maxRows ?? DEFAULT_MAX_ROWS;
+
+	const run = async (
+		table: TableSchema,
+		sql: string,
+	): Promise<Array<Record<string, unknown>> | undefined> => {
+		try {
+			const result = await queryEngine.validateAndExecute(
+				sql,
+				{},
+				databaseName,
+				tenantId,
+				{ cacheTtlMs: 0 },
+			);
+			return result.rows;
+		} catch (error) {
+			logger.warn(
+				{ database: databaseName, table: table.name, err: error },
+				"Failed to collect sample values",
+			);
+			return undefined;
+		}
+	};
+
+	const rowEstimates = tenantField
+		? new Map<string, number>()
+		: await estimateRowCounts(
+				queryEngine.getDatabase(databaseName),
+				dialect,
+				databaseName,
+				logger,
+			);
+
+	for (const table of introspection.tables) {
+		if (
+			tenantField &&
+			!table.columns.some((column) => column.name === tenantField)
+		) {
+			continue;
+		}
+		const from = qualifiedTableName(table, dialect);
+
+		const rowCount = rowEstimates.get(`${table.schema}.${table.name}`);
+		if (rowCount !== undefined) table.rowCount = rowCount;
+
+		const sampled = table.columns.filter(
+			(column) =>
+				column.name !== tenantField && isSampleable(table, column, excluded),
+		);
+
+		for (const column of sampled) {
+			if (!STRING_TYPE_REGEX.test(column.type)) continue;
+			const name = quoteIdentifier(column.name, dialect);
+			const rows = await run(
+				table,
+				`SELECT qp_value, COUNT(*) AS qp_count FROM (SELECT ${name} AS qp_value FROM ${from} WHERE ${name} IS NOT NULL LIMIT ${maxRows}) AS qp_sample GROUP BY qp_value ORDER BY qp_count DESC LIMIT ${maxDistinct + 1}`,
+			);
+			// More distinct values than maxDistinct means free text, not categories
+			if (rows && rows.length > 0 && rows.length <= maxDistinct) {
+				column.sampleValues = rows
+					.slice(0, topN)
+					.map((row) => String(toSampleValue(row.qp_value)));
+			}
+		}
+
+		// One query per table for every numeric and temporal range
+		const ranged = sampled.filter(
+			(column) =>
+				NUMERIC_TYPE_REGEX.test(column.type) ||
+				TEMPORAL_TYPE_REGEX.test(column.type),
+		);
+		if (ranged.length === 0) continue;
+		const selected = ranged
+			.map(
+				(column, index) =>
+					`${quoteIdentifier(column.name, dialect)} AS qp_c${index}`,
+			)
+			.join(", ");
+		const ranges = ranged
+			.map(
+				(_, index) =>
+					`MIN(qp_c${index}) AS qp_min_${index}, MAX(qp_c${index}) AS qp_max_${index}`,
+			)
+			.join(", ");
+		const rows = await run(
+			table,
+			`SELECT ${ranges} FROM (SELECT ${selected} FROM ${from} LIMIT ${maxRows}) AS qp_sample`,
+		);
+		ranged.forEach((column, index) => {
+			const minValue = toSampleValue(rows?.[0]?.[`qp_min_${index}`]);
+			const maxValue = toSampleValue(rows?.[0]?.[`qp_max_${index}`]);
+			if (minValue !== undefined) column.sampleMinValue = minValue;
+			if (maxValue !== undefined) column.sampleMaxValue = maxValue;
+		});
+	}
+}
+
+/**
+ * Catalog tables have no tenant column, so these run on the adapter directly
+ */
+async function estimateRowCounts(
+	adapter: DatabaseAdapter,
+	dialect: DatabaseDialect,
+	databaseName: string,
+	logger: Logger,
+): Promise<Map<string, number>> {
+	const estimates = new Map<string, number>();
+	const sql = ROW_ESTIMATE_QUERIES[dialect];
+	if (!sql) return estimates;
+
+	try {
+		const { rows } = await adapter.execute(sql);
+		for (const row of rows) {
+			const estimate = Number(row.row_estimate);
+			// Postgres reports -1 for tables never vacuumed or analyzed
+			if (Number.isFinite(estimate) && estimate >= 0) {
+				const key = `${row.schema_name}.${row.table_name}`;
+				estimates.set(key, Math.round(estimate));
+			}
+		}
+	} catch (error) {
+		logger.warn(
+			{ database: databaseName, err: error },
+			"Failed to read row count estimates",
+		);
+	}
+	return estimates;
+}
+
+/**
+ * Keys, enums (values already known), deny-listed and sensitive-looking columns are skipped
+ */
+function isSampleable(
+	table: TableSchema,
+	column: ColumnSchema,
+	excluded: Set<string>,
+): boolean {
+	const name = column.name.toLowerCase();
+	if (
+		excluded.has(name) ||
+		excluded.has(`${table.name}.${name}`.toLowerCase()) ||
+		excluded.has(`${table.schema}.${table.name}.${name}`.toLowerCase())
+	) {
+		return false;
+	}
+	if (column.isPrimaryKey || column.enumValues || /(^|_)id$/.test(name)) {
+		return false;
+	}
+	return !isSensitiveColumnName(column.name);
+}
+
+function isSensitiveColumnName(name: string): boolean {
+	const snake = name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase();
+	return SENSITIVE_NAME_REGEX.test(snake);
+}
+
+/**
+ * Plain names stay unquoted so allowedTables checks in the adapters still recognise them
+ */
+function qualifiedTableName(table: TableSchema, dialect: DatabaseDialect): string {
+	const name = isPlainIdentifier(table.name)
+		? table.name
+		: quoteIdentifier(table.name, dialect);
+	if (!table.schema) return name;
+	const schema = isPlainIdentifier(table.schema)
+		? table.schema
+		: quoteIdentifier(table.schema, dialect);
+	return `${schema}.${name}`;
+}
+
+function isPlainIdentifier(value: string): boolean {
+	return /^[a-z_][a-z0-9_]*$/.test(value);
+}
+
+function quoteIdentifier(value: string, dialect: DatabaseDialect): string {
+	if (dialect === "mysql" || dialect === "clickhouse") {
+		return `\`${value.replace(/`/g, "``")}\``;
+	}
+	return `"${value.replace(/"/g, '""')}"`;
+}
+
+function toSampleValue(value: unknown): string | number | undefined {
+	if (value === null || value === undefined) return undefined;
+	if (value instanceof Date) return value.toISOString();
+	if (typeof value === "number") return value;
+	return String(value);
+}
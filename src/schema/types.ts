@@ -1,11 +1,17 @@
 /**
  * Simplified schema types aligned with backend IngestRequest format
  * Following Ousterhout's principle: "Define errors out of existence"
- * - Removed indexes, constraints, foreign keys, statistics
- * - Only collect what the backend needs for vectorization
+ * - Removed indexes, constraints, statistics
+ * - Only collect what the backend needs for vectorization and join planning
  */
 
-export type DatabaseKind = "clickhouse" | "postgres" | string;
+export type DatabaseKind =
+	| "clickhouse"
+	| "postgres"
+	| "mysql"
+	| "sqlite"
+	| "duckdb"
+	| string;
 
 export interface DatabaseIdentifier {
 	kind: DatabaseKind;
@@ -20,6 +26,46 @@ export interface ColumnSchema {
 	rawType?: string;
 	isPrimaryKey: boolean;
 	comment?: string;
+	/** Whether the column accepts NULL (ClickHouse: wrapped in Nullable) */
+	nullable?: boolean;
+	/** Total digits of decimal types */
+	precision?: number;
+	/** Digits after the decimal point of decimal types */
+	scale?: number;
+	/** Maximum length of bounded string types (varchar(n), FixedString(n)) */
+	maxLength?: number;
+	/** Allowed values of enum types, in declaration order */
+	enumValues?: string[];
+	/** Default value expression as declared on the column */
+	defaultExpression?: string;
+	/** Most frequent values of low-cardinality string columns (sampleValues sync option) */
+	sampleValues?: string[];
+	/** Smallest value among the sampled rows of numeric and temporal columns (sampleValues sync option) */
+	sampleMinValue?: string | number;
+	/** Largest value among the sampled rows of numeric and temporal columns (sampleValues sync option) */
+	sampleMaxValue?: string | number;
+	/** Other names users call the column by (from schema annotations) */
+	synonyms?: string[];
+	/** Unit of measure, e.g. "EUR" or "ms" (from schema annotations) */
+	unit?: string;
+}
+
+/**
+ * Join path from columns of this table to the key of another table
+ */
+export interface Relationship {
+	/** Constraint name for declared foreign keys */
+	name?: string;
+	/** Columns of this table, in key order */
+	columns: string[];
+	targetSchema: string;
+	targetTable: string;
+	/** Referenced columns, matching `columns` position by position */
+	targetColumns: string[];
+	/** One-to-one when the source columns are themselves unique */
+	cardinality: "many-to-one" | "one-to-one";
+	/** Declared foreign key, or guessed from column naming (`user_id` → `users.id`) */
+	origin: "foreign_key" | "inferred";
 }
 
 export interface TableSchema {
@@ -28,12 +74,40 @@ export interface TableSchema {
 	type: "table" | "view" | string;
 	comment?: string;
 	columns: ColumnSchema[];
+	/** Outgoing relationships; omitted when the adapter doesn't report them */
+	relationships?: Relationship[];
+	/** Row count at sync time (sampleValues sync option) */
+	rowCount?: number;
+	/** Other names users call the table by (from schema annotations) */
+	synonyms?: string[];
+	/** Date column to filter on when a question names no date column (from schema annotations) */
+	preferredDateColumn?: string;
+}
+
+/**
+ * Named business metric, e.g. revenue = `SUM(amount)` filtered by `status = 'paid'`
+ */
+export interface MetricDefinition {
+	name: string;
+	/** Table the metric is computed from, bare or schema-qualified */
+	table: string;
+	/** Aggregate SQL expression */
+	expression: string;
+	/** SQL predicate rows must satisfy to count towards the metric */
+	filter?: string;
+	description?: string;
+	synonyms?: string[];
+	unit?: string;
 }
 
 export interface SchemaIntrospection {
 	db: DatabaseIdentifier;
 	tables: TableSchema[];
 	introspectedAt: string;
+	/** Business metrics (from schema annotations) */
+	metrics?: MetricDefinition[];
+	/** Business terms and their definitions (from schema annotations) */
+	glossary?: Record<string, string>;
 }
 
 export interface IntrospectOptions {
@@ -2,6 +2,9 @@
  * Test utilities and fixtures
  */
 
+import { vi } from "vitest";
+import type { Span, Tracer } from "./core/tracing";
+
 /**
  * Valid RSA private key for testing JWT generation
  */
@@ -36,3 +39,37 @@ S5AHC7G7jkLu5OPtKEnCw38=
 
 export const TEST_ORG_ID = "org-test-123";
 export const TEST_BASE_URL = "https://api.example.com";
+
+/**
+ * Tracer double that records every span it starts
+ */
+export function recordingTracer() {
+	const spans: Array<{
+		name: string;
+		options: Record<string, unknown>;
+		span: Span & {
+			setAttribute: ReturnType<typeof vi.fn>;
+			recordException: ReturnType<typeof vi.fn>;
+			setStatus: ReturnType<typeof vi.fn>;
+			end: ReturnType<typeof vi.fn>;
+		};
+	}> = [];
+	const tracer: Tracer = {
+		startActiveSpan: (name, options, fn) => {
+			const span = {
+				setAttribute: vi.fn(),
+				recordException: vi.fn(),
+				setStatus: vi.fn(),
+				end: vi.fn(),
+				spanContext: () => ({
+					traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+					spanId: "00f067aa0ba902b7",
+					traceFlags: 1,
+				}),
+			};
+			spans.push({ name, options, span });
+			return fn(span) as ReturnType<typeof fn>;
+		},
+	};
+	return { tracer, spans };
+}
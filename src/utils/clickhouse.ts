@@ -44,6 +44,17 @@ export function extractFixedStringLength(type: string): number | undefined {
   return Number.parseInt(length, 10);
 }
 
+export function extractEnumValues(type: string): string[] | undefined {
+  const unwrapped = unwrapTypeModifiers(type);
+  const match = unwrapped.match(/^Enum(?:8|16)?\((.*)\)$/is);
+  if (!match?.[1]) return undefined;
+  const values: string[] = [];
+  for (const entry of match[1].matchAll(/'((?:[^'\\]|\\.)*)'(?:\s*=\s*-?\d+)?/g)) {
+    values.push((entry[1] ?? "").replace(/\\(.)/g, "$1"));
+  }
+  return values.length ? values : undefined;
+}
+
 export function parseKeyExpression(expression?: string | null): string[] {
   if (!expression) return [];
   let value = expression.trim();
@@ -0,0 +1,56 @@
+/**
+ * Runs async tasks with at most `limit` in flight; the rest wait in FIFO order
+ */
+export type ConcurrencyLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export function createConcurrencyLimiter(limit: number): ConcurrencyLimiter {
+	if (!Number.isInteger(limit) || limit < 1) {
+		throw new Error(`Concurrency limit must be a positive integer, got ${limit}`);
+	}
+
+	let active = 0;
+	const waiting: Array<() => void> = [];
+
+	const release = () => {
+		const next = waiting.shift();
+		if (next) {
+			// Hand the slot over directly so active stays at the limit
+			next();
+		} else {
+			active--;
+		}
+	};
+
+	return async (task) => {
+		if (active < limit) {
+			active++;
+		} else {
+			await new Promise<void>((resolve) => waiting.push(resolve));
+		}
+		try {
+			return await task();
+		} finally {
+			release();
+		}
+	};
+}
+
+/**
+ * Takes a slot and holds it until the returned release function is called,
+ * for work that outlives a single task (a stream being consumed)
+ */
+export async function acquireSlot(
+	limit: ConcurrencyLimiter,
+): Promise<() => void> {
+	let release = () => {};
+	await new Promise<void>((acquired) => {
+		void limit(
+			() =>
+				new Promise<void>((resolve) => {
+					release = resolve;
+					acquired();
+				}),
+		);
+	});
+	return release;
+}
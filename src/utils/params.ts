@@ -0,0 +1,290 @@
+import { tokenizeSql } from "./sql-tokenizer";
+
+/**
+ * Placeholder rewriting shared by adapters whose drivers bind `?`, `$1` or `:name`
+ * instead of the named params produced by QueryEngine.mapGeneratedParams.
+ */
+
+const NAMED_PLACEHOLDER_REGEX =
+	/^(?:[:$]([a-zA-Z_][a-zA-Z0-9_]*)|\{([a-zA-Z_][a-zA-Z0-9_]*)(?::[^}]*)?\})$/;
+
+export type NamedParams = Record<
+	string,
+	string | number | boolean | string[] | number[]
+>;
+
+/**
+ * Rewrite named placeholders (`:name`, `{name}` or `{name:Type}`) to `?`
+ * placeholders and build the matching positional value array.
+ * Existing `?` placeholders consume numeric keys ("1", "2", ...) in order.
+ * Placeholders inside string literals, quoted identifiers and comments are left untouched.
+ */
+export function convertNamedToPositionalParams(
+	sql: string,
+	params?: NamedParams,
+): { sql: string; values: unknown[] | undefined } {
+	if (!params) {
+		return { sql, values: undefined };
+	}
+
+	const numericValues = Object.keys(params)
+		.filter((k) => /^\d+$/.test(k))
+		.sort((a, b) => Number.parseInt(a, 10) - Number.parseInt(b, 10))
+		.map((k) => resolvePlaceholderToken(params[k], params));
+	let nextNumeric = 0;
+
+	const values: unknown[] = [];
+	let output = "";
+	let i = 0;
+
+	while (i < sql.length) {
+		const ch = sql[i] as string;
+		const next = sql[i + 1];
+
+		// Skip quoted strings and identifiers
+		if (ch === "'" || ch === '"' || ch === "`") {
+			const end = findClosingQuote(sql, i, ch);
+			output += sql.slice(i, end);
+			i = end;
+			continue;
+		}
+
+		// Skip comments
+		if (ch === "-" && next === "-") {
+			const end = sql.indexOf("\n", i);
+			const stop = end === -1 ? sql.length : end;
+			output += sql.slice(i, stop);
+			i = stop;
+			continue;
+		}
+		if (ch === "/" && next === "*") {
+			const stop = findBlockCommentEnd(sql, i);
+			output += sql.slice(i, stop);
+			i = stop;
+			continue;
+		}
+
+		if (ch === "?") {
+			values.push(numericValues[nextNumeric]);
+			nextNumeric += 1;
+			output += ch;
+			i += 1;
+			continue;
+		}
+
+		if (ch === ":" && next !== ":" && sql[i - 1] !== ":") {
+			const match = /^:([a-zA-Z_][a-zA-Z0-9_]*)/.exec(sql.slice(i));
+			const name = match?.[1];
+			if (match && name && name in params) {
+				values.push(params[name]);
+				output += "?";
+				i += match[0].length;
+				continue;
+			}
+		}
+
+		if (ch === "{") {
+			const match = /^\{([a-zA-Z_][a-zA-Z0-9_]*)(?::[^}]*)?\}/.exec(
+				sql.slice(i),
+			);
+			const name = match?.[1];
+			if (match && name && name in params) {
+				values.push(params[name]);
+				output += "?";
+				i += match[0].length;
+				continue;
+			}
+		}
+
+		output += ch;
+		i += 1;
+	}
+
+	return { sql: output, values };
+}
+
+/**
+ * Rewrite named placeholders (`{name}`, `{name:Type}`, `:name` or `$name`) to
+ * `<prefix>name` and return the named values without numeric keys, for drivers
+ * binding `:name` (SQLite) or `$name` (DuckDB) natively.
+ */
+export function convertToNamedParams(
+	sql: string,
+	params: NamedParams | undefined,
+	prefix: ":" | "$",
+): { sql: string; values: Record<string, unknown> | undefined } {
+	if (!params) {
+		return { sql, values: undefined };
+	}
+
+	const values: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(params)) {
+		if (!/^\d+$/.test(key)) values[key] = value;
+	}
+
+	const rewritten = mapOutsideQuotes(sql, (segment) =>
+		segment
+			.replace(
+				/\{([a-zA-Z_][a-zA-Z0-9_]*)(?::[^}]*)?\}/g,
+				(match, name: string) => (name in values ? `${prefix}${name}` : match),
+			)
+			.replace(
+				/(^|[^:$\w])[:$]([a-zA-Z_][a-zA-Z0-9_]*)/g,
+				(match, lead: string, name: string) =>
+					name in values ? `${lead}${prefix}${name}` : match,
+			),
+	);
+
+	return { sql: rewritten, values };
+}
+
+/**
+ * Rewrite named placeholders (`:name`, `$name`, `{name}` or `{name:Type}`) to
+ * numbered `$n` placeholders and build the matching value array, for drivers
+ * binding `$1, $2, ...` (PostgreSQL).
+ *
+ * Existing `$n` placeholders keep their numbers and take the numeric key "n"
+ * (a `<name>` value binds that named param); named placeholders get the next
+ * free numbers in order of first appearance, a name used twice shares one
+ * number. A `$n` that cannot be resolved throws rather than guessing.
+ */
+export function convertToNumberedParams(
+	sql: string,
+	params?: NamedParams,
+): { sql: string; values: unknown[] | undefined } {
+	if (!params) {
+		return { sql, values: undefined };
+	}
+
+	const tokens = tokenizeSql(sql, "postgres");
+	const numberedSlots = tokens
+		.filter((token) => token.type === "param" && /^\$\d+$/.test(token.value))
+		.map((token) => Number.parseInt(token.value.slice(1), 10));
+	let lastSlot = Math.max(0, ...numberedSlots);
+	const positionalCount = lastSlot;
+
+	const namedSlots = new Map<string, number>();
+	let output = "";
+	for (const token of tokens) {
+		const match =
+			token.type === "param" ? NAMED_PLACEHOLDER_REGEX.exec(token.value) : null;
+		const name = match?.[1] ?? match?.[2];
+		if (!name || !(name in params)) {
+			output += token.value;
+			continue;
+		}
+		let slot = namedSlots.get(name);
+		if (slot === undefined) {
+			lastSlot += 1;
+			slot = lastSlot;
+			namedSlots.set(name, slot);
+		}
+		output += `$${slot}`;
+	}
+
+	const values: unknown[] = [];
+	for (let slot = 1; slot <= positionalCount; slot++) {
+		const value: unknown = params[String(slot)];
+		const reference: string | undefined =
+			typeof value === "string" ? /^<([a-zA-Z0-9_]+)>$/.exec(value)?.[1] : undefined;
+		if (value === undefined || (reference && !(reference in params))) {
+			throw new Error(`Missing value for placeholder $${slot}`);
+		}
+		values.push(resolvePlaceholderToken(value, params));
+	}
+	for (const name of namedSlots.keys()) {
+		values.push(params[name]);
+	}
+
+	return { sql: output, values };
+}
+
+/**
+ * Apply a transform to the parts of the SQL outside string literals,
+ * quoted identifiers and comments.
+ */
+function mapOutsideQuotes(
+	sql: string,
+	transform: (segment: string) => string,
+): string {
+	let output = "";
+	let segmentStart = 0;
+	let i = 0;
+
+	while (i < sql.length) {
+		const ch = sql[i] as string;
+		const next = sql[i + 1];
+		let end = -1;
+
+		if (ch === "'" || ch === '"' || ch === "`") {
+			end = findClosingQuote(sql, i, ch);
+		} else if (ch === "-" && next === "-") {
+			const newline = sql.indexOf("\n", i);
+			end = newline === -1 ? sql.length : newline;
+		} else if (ch === "/" && next === "*") {
+			end = findBlockCommentEnd(sql, i);
+		}
+
+		if (end === -1) {
+			i += 1;
+			continue;
+		}
+
+		output += transform(sql.slice(segmentStart, i)) + sql.slice(i, end);
+		segmentStart = end;
+		i = end;
+	}
+
+	return output + transform(sql.slice(segmentStart));
+}
+
+/**
+ * Placeholders inside comments are left alone, so comments the database does
+ * not skip (MySQL `/*! ... *\/`) or that nest in some dialects are rejected
+ */
+function findBlockCommentEnd(sql: string, start: number): number {
+	const close = sql.indexOf("*/", start + 2);
+	const end = close === -1 ? sql.length : close + 2;
+	const comment = sql.slice(start, end);
+	if (/^\/\*M?!/.test(comment)) {
+		throw new Error("Executable comments (/*! ... */) are not supported");
+	}
+	if (comment.includes("/*", 2)) {
+		throw new Error("Nested comments are not supported");
+	}
+	return end;
+}
+
+function resolvePlaceholderToken(
+	value: unknown,
+	params: Record<string, unknown>,
+): unknown {
+	if (typeof value !== "string") return value;
+	// Resolve placeholder tokens like `<tenant_id>` to their named values
+	const match = value.match(/^<([a-zA-Z0-9_]+)>$/);
+	const namedKey = match?.[1];
+	if (namedKey && namedKey in params) {
+		return params[namedKey];
+	}
+	return value;
+}
+
+function findClosingQuote(sql: string, start: number, quote: string): number {
+	let i = start + 1;
+	while (i < sql.length) {
+		const ch = sql[i];
+		if (ch === "\\" && quote !== "`") {
+			i += 2;
+			continue;
+		}
+		if (ch === quote) {
+			if (sql[i + 1] === quote) {
+				i += 2;
+				continue;
+			}
+			return i + 1;
+		}
+		i += 1;
+	}
+	return sql.length;
+}
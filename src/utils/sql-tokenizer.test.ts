@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { significantTokens, tokenizeSql } from "./sql-tokenizer";
+
+const values = (sql: string, dialect?: Parameters<typeof tokenizeSql>[1]) =>
+	significantTokens(tokenizeSql(sql, dialect)).map((token) => token.value);
+
+describe("tokenizeSql", () => {
+	it("should reproduce the input from its tokens", () => {
+		const sql = "SELECT 'a''b', \"c\" -- note\nFROM t /* x */ WHERE id = $1";
+		expect(
+			tokenizeSql(sql, "postgres")
+				.map((token) => token.value)
+				.join(""),
+		).toBe(sql);
+	});
+
+	it("should only start a MySQL -- comment before whitespace", () => {
+		expect(values("SELECT 1 --1; DROP TABLE t", "mysql")).toEqual([
+			"SELECT",
+			"1",
+			"-",
+			"-",
+			"1",
+			";",
+			"DROP",
+			"TABLE",
+			"t",
+		]);
+		expect(values("SELECT 1 -- x\n, 2", "mysql")).toEqual(["SELECT", "1", ",", "2"]);
+		expect(values("SELECT 1 --", "mysql")).toEqual(["SELECT", "1"]);
+		expect(values("SELECT 1 --1", "postgres")).toEqual(["SELECT", "1"]);
+	});
+
+	it("should treat # as a line comment in MySQL and ClickHouse only", () => {
+		const sql = "SELECT 1 # '\n; DROP TABLE t; -- '";
+		expect(values(sql, "mysql")).toEqual(["SELECT", "1", ";", "DROP", "TABLE", "t", ";"]);
+		expect(values(sql, "clickhouse")).toEqual([
+			"SELECT",
+			"1",
+			";",
+			"DROP",
+			"TABLE",
+			"t",
+			";",
+		]);
+		expect(values("SELECT 5 # 3", "postgres")).toEqual(["SELECT", "5", "#", "3"]);
+	});
+
+	it("should nest block comments for Postgres only", () => {
+		const sql = "SELECT 1 /* a /* b */ c */";
+		expect(values(sql, "postgres")).toEqual(["SELECT", "1"]);
+		expect(values(sql, "mysql")).toEqual(["SELECT", "1", "c", "*", "/"]);
+	});
+});
@@ -0,0 +1,280 @@
+import type { DatabaseDialect } from "../adapters/types";
+
+export type SqlTokenType =
+	| "word"
+	| "quoted"
+	| "string"
+	| "number"
+	| "param"
+	| "operator"
+	| "punct"
+	| "whitespace"
+	| "comment";
+
+export interface SqlToken {
+	type: SqlTokenType;
+	/** Raw source text of the token */
+	value: string;
+	/** Offset of the first character in the source SQL */
+	start: number;
+	/** Offset one past the last character in the source SQL */
+	end: number;
+}
+
+const PUNCTUATION = new Set(["(", ")", ",", ";", ".", "[", "]"]);
+const PARAM_BRACE_REGEX = /^\{[a-zA-Z_][a-zA-Z0-9_]*(?::[^}]*)?\}/;
+const DOLLAR_QUOTE_REGEX = /^\$([a-zA-Z_][a-zA-Z0-9_]*)?\$/;
+const NUMBER_REGEX = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+const WORD_REGEX = /^[a-zA-Z_\u0080-\uffff][a-zA-Z0-9_$\u0080-\uffff]*/;
+
+/**
+ * Lossless SQL tokenizer: concatenating every token value yields the input.
+ * Understands the quoting, comment and placeholder rules of the supported dialects
+ * well enough to tell keywords and identifiers apart from literal text.
+ */
+export function tokenizeSql(
+	sql: string,
+	dialect?: DatabaseDialect,
+): SqlToken[] {
+	// MySQL and ClickHouse treat backslash as an escape character inside strings
+	const backslashEscapes = dialect === "mysql" || dialect === "clickhouse";
+	// MySQL treats double quotes as string delimiters by default
+	const doubleQuotedStrings = dialect === "mysql";
+
+	const tokens: SqlToken[] = [];
+	let i = 0;
+
+	const push = (type: SqlTokenType, end: number) => {
+		tokens.push({ type, value: sql.slice(i, end), start: i, end });
+		i = end;
+	};
+
+	while (i < sql.length) {
+		const ch = sql[i] as string;
+		const next = sql[i + 1];
+		const rest = sql.slice(i);
+
+		if (/\s/.test(ch)) {
+			let end = i + 1;
+			while (end < sql.length && /\s/.test(sql[end] as string)) end += 1;
+			push("whitespace", end);
+			continue;
+		}
+
+		// MySQL only starts a `--` comment before whitespace (`--1` is minus minus 1)
+		// and, like ClickHouse, also takes `#` to the end of the line
+		const dashComment =
+			ch === "-" &&
+			next === "-" &&
+			(dialect !== "mysql" || /^\s?$/.test(sql.charAt(i + 2)));
+		const hashComment =
+			ch === "#" && (dialect === "mysql" || dialect === "clickhouse");
+		if (dashComment || hashComment) {
+			const newline = sql.indexOf("\n", i);
+			push("comment", newline === -1 ? sql.length : newline);
+			continue;
+		}
+
+		if (ch === "/" && next === "*") {
+			push("comment", findCommentEnd(sql, i, dialect === "postgres"));
+			continue;
+		}
+
+		if (ch === "'") {
+			// Postgres E'...' strings honour backslash escapes
+			const previous = tokens[tokens.length - 1];
+			const escapeString =
+				previous?.type === "word" &&
+				previous.end === i &&
+				/^[eE]$/.test(previous.value);
+			push("string", findClosingQuote(sql, i, "'", backslashEscapes || escapeString));
+			continue;
+		}
+
+		if (ch === '"') {
+			push(
+				doubleQuotedStrings ? "string" : "quoted",
+				findClosingQuote(sql, i, '"', doubleQuotedStrings && backslashEscapes),
+			);
+			continue;
+		}
+
+		if (ch === "`") {
+			push("quoted", findClosingQuote(sql, i, "`", false));
+			continue;
+		}
+
+		// SQLite also accepts SQL Server style [identifiers]
+		if (ch === "[" && dialect === "sqlite") {
+			const close = sql.indexOf("]", i + 1);
+			push("quoted", close === -1 ? sql.length : close + 1);
+			continue;
+		}
+
+		if (ch === "$") {
+			const dollarQuote = DOLLAR_QUOTE_REGEX.exec(rest);
+			if (dollarQuote && dialect !== "duckdb" && dialect !== "clickhouse") {
+				const tag = dollarQuote[0];
+				const close = sql.indexOf(tag, i + tag.length);
+				push("string", close === -1 ? sql.length : close + tag.length);
+				continue;
+			}
+			const param = /^\$(?:\d+|[a-zA-Z_][a-zA-Z0-9_]*)/.exec(rest);
+			if (param) {
+				push("param", i + param[0].length);
+				continue;
+			}
+		}
+
+		if (ch === ":") {
+			if (next === ":") {
+				push("operator", i + 2);
+				continue;
+			}
+			const param = /^:[a-zA-Z_][a-zA-Z0-9_]*/.exec(rest);
+			if (param) {
+				push("param", i + param[0].length);
+				continue;
+			}
+		}
+
+		if (ch === "?") {
+			push("param", i + 1);
+			continue;
+		}
+
+		if (ch === "@") {
+			const param = /^@[a-zA-Z_][a-zA-Z0-9_]*/.exec(rest);
+			if (param) {
+				push("param", i + param[0].length);
+				continue;
+			}
+		}
+
+		if (ch === "{") {
+			const param = PARAM_BRACE_REGEX.exec(rest);
+			if (param) {
+				push("param", i + param[0].length);
+				continue;
+			}
+		}
+
+		const number = NUMBER_REGEX.exec(rest);
+		if (number && (/\d/.test(ch) || (ch === "." && /\d/.test(next ?? "")))) {
+			push("number", i + number[0].length);
+			continue;
+		}
+
+		const word = WORD_REGEX.exec(rest);
+		if (word) {
+			push("word", i + word[0].length);
+			continue;
+		}
+
+		if (PUNCTUATION.has(ch)) {
+			push("punct", i + 1);
+			continue;
+		}
+
+		push("operator", i + 1);
+	}
+
+	return tokens;
+}
+
+/**
+ * Tokens carrying meaning (no whitespace or comments)
+ */
+export function significantTokens(tokens: SqlToken[]): SqlToken[] {
+	return tokens.filter(
+		(token) => token.type !== "whitespace" && token.type !== "comment",
+	);
+}
+
+/**
+ * Returns a comment the database may not treat as one: MySQL runs the body of
+ * `/*! ... *\/` (and MariaDB of `/*M! ... *\/`), and block comments containing
+ * `/*` end in different places depending on whether the dialect nests them.
+ * Nesting is only modelled for Postgres, so such comments are unsafe elsewhere.
+ */
+export function findUnsafeComment(
+	tokens: SqlToken[],
+	dialect?: DatabaseDialect,
+): SqlToken | undefined {
+	return tokens.find(
+		(token) =>
+			token.type === "comment" &&
+			token.value.startsWith("/*") &&
+			((dialect !== "postgres" && token.value.includes("/*", 2)) ||
+				((dialect === "mysql" || dialect === undefined) &&
+					/^\/\*M?!/.test(token.value))),
+	);
+}
+
+/**
+ * Case-insensitive keyword check for a word token
+ */
+export function isKeyword(
+	token: SqlToken | undefined,
+	...keywords: string[]
+): boolean {
+	if (!token || token.type !== "word") return false;
+	const upper = token.value.toUpperCase();
+	return keywords.includes(upper);
+}
+
+/**
+ * Identifier text without surrounding quotes
+ */
+export function unquoteIdentifier(token: SqlToken): string {
+	if (token.type !== "quoted") return token.value;
+	if (token.value.startsWith("[")) return token.value.slice(1, -1);
+	const quote = token.value[0] as string;
+	return token.value.slice(1, -1).split(`${quote}${quote}`).join(quote);
+}
+
+/**
+ * Offset one past the `*\/` closing the block comment at start
+ */
+function findCommentEnd(sql: string, start: number, nested: boolean): number {
+	let depth = 0;
+	let i = start;
+	while (i < sql.length) {
+		if (sql[i] === "/" && sql[i + 1] === "*" && (nested || depth === 0)) {
+			depth += 1;
+			i += 2;
+		} else if (sql[i] === "*" && sql[i + 1] === "/") {
+			depth -= 1;
+			i += 2;
+			if (depth === 0) return i;
+		} else {
+			i += 1;
+		}
+	}
+	return sql.length;
+}
+
+function findClosingQuote(
+	sql: string,
+	start: number,
+	quote: string,
+	backslashEscapes: boolean,
+): number {
+	let i = start + 1;
+	while (i < sql.length) {
+		const ch = sql[i];
+		if (ch === "\\" && backslashEscapes) {
+			i += 2;
+			continue;
+		}
+		if (ch === quote) {
+			if (sql[i + 1] === quote) {
+				i += 2;
+				continue;
+			}
+			return i + 1;
+		}
+		i += 1;
+	}
+	return sql.length;
+}